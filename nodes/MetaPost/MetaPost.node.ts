@@ -1,3 +1,4 @@
+import * as fs from 'fs';
 import type {
 	IDataObject,
 	IExecuteFunctions,
@@ -7,24 +8,73 @@ import type {
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 
-import type { MetaPostParams, MetaPostResult, CarouselItem, IgStatusResponse } from './types';
+import type {
+	MetaPostParams,
+	MetaPostResult,
+	CarouselItem,
+	MediaInputSource,
+	Platform,
+	PlatformState,
+	PublishTarget,
+	IgScheduleHandle,
+	FacebookVideoFormat,
+	PlatformCaptions,
+	UserTag,
+	AspectRatioSetting,
+	SubtitleSettings,
+	UploadSummary,
+} from './types';
 import * as graphApi from './utils/graphApi';
-import { convertImage, convertVideo, downloadMedia } from './utils/ffmpeg';
+import {
+	convertImage,
+	extractFrame,
+	IG_MAX_ASPECT_RATIO,
+	IG_MIN_ASPECT_RATIO,
+	prepareVideo,
+	resolveCanvas,
+	resolveVideoCut,
+	STORY_CANVAS,
+} from './utils/ffmpeg';
+import type {
+	FitMode,
+	FrameOptions,
+	ImageConvertOptions,
+	OverlayOptions,
+	OverlayPosition,
+	AudioOptions,
+	ExternalAudio,
+	SubtitlePosition,
+	TrimOptions,
+	VideoConvertOptions,
+	VideoProcessingReport,
+} from './utils/ffmpeg';
+import { probeMedia } from './utils/probe';
+import { formatCueErrors, parseSubtitles, toSrt } from './utils/subtitles';
+import { createWorkspace, downloadMedia, writeBufferToFile, writeStreamToFile } from './utils/workspace';
+import type { MediaWorkspace } from './utils/workspace';
+import { cacheKey, createMediaCache, hashFile } from './utils/mediaCache';
+import type { MediaCache } from './utils/mediaCache';
+import { findPublished, recordPublished } from './utils/ledger';
+import type { LedgerEntry } from './utils/ledger';
+import { createArtifactTracker } from './utils/artifacts';
+import type { ArtifactTracker, CleanedArtifact } from './utils/artifacts';
+import { mapWithConcurrency } from './utils/concurrency';
+import { createIgStatusPoller, pollIgContainer } from './utils/igStatusPoller';
+import {
+	mergeIssues,
+	validateCarouselSize,
+	validateFacebookCaption,
+	validateImage,
+	validateInstagramCaption,
+	validateVideo,
+	VIDEO_DURATION_LIMITS,
+} from './utils/validation';
+import type { ItemValidation, ValidationReport, VideoPlacement } from './utils/validation';
 
 function sleep(ms: number): Promise<void> {
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-/**
- * True for Meta's transient throttling errors — safe to back off and retry
- * rather than fail the whole post. Covers app (#4), user (#17), page (#32),
- * temporary (#341) and custom (#613) rate limits.
- */
-function isRateLimitError(err: unknown): boolean {
-	const msg = (err as Error)?.message ?? '';
-	return /\(#(4|17|32|341|613)\)/.test(msg) || /request limit reached/i.test(msg);
-}
-
 function formatIgApiError(resp: graphApi.FullResponse): string {
 	const err = resp.body?.error;
 	if (!err) return `HTTP ${resp.statusCode}: ${JSON.stringify(resp.body)}`;
@@ -76,6 +126,23 @@ function prepareCaption(caption: string, hashSuffix: string): string {
 	return result.replace(/\n{3,}/g, '\n\n');
 }
 
+/**
+ * Build the per-platform captions. Platform overrides fall back to the shared
+ * caption and hash suffix, and each one is run through prepareCaption.
+ */
+function prepareCaptions(params: MetaPostParams): PlatformCaptions {
+	return {
+		instagram: prepareCaption(
+			params.instagramCaption || params.caption,
+			params.instagramHashSuffix || params.hashSuffix,
+		),
+		facebook: prepareCaption(
+			params.facebookCaption || params.caption,
+			params.facebookHashSuffix || params.hashSuffix,
+		),
+	};
+}
+
 const VIDEO_EXTENSIONS = new Set(['.mp4', '.mov', '.avi', '.webm', '.mkv', '.m4v']);
 
 function detectItemMediaTypeByExt(url: string): 'image' | 'video' | null {
@@ -114,32 +181,426 @@ async function detectItemMediaType(
 	return 'image';
 }
 
-async function readParams(ctx: IExecuteFunctions, i: number): Promise<MetaPostParams> {
+function detectBinaryMediaType(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	binaryPropertyName: string,
+): 'image' | 'video' {
+	const binary = ctx.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+	return (binary.mimeType || '').toLowerCase().startsWith('video/') ? 'video' : 'image';
+}
+
+function binaryMimeType(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	binaryPropertyName: string,
+): string {
+	const binary = ctx.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+	return binary.mimeType || 'image/jpeg';
+}
+
+/**
+ * Bring media into the workspace as a file: streamed from n8n's binary data
+ * store when the item's binary property is backed by one, otherwise written
+ * from memory or downloaded from the media URL. Each source is loaded once
+ * per execution; later steps get the cached file. Returns the file path.
+ */
+async function loadMediaFile(
+	ctx: IExecuteFunctions,
+	workspace: MediaWorkspace,
+	cache: MediaCache,
+	itemIndex: number,
+	source: { mediaUrl: string; binaryPropertyName?: string },
+): Promise<string> {
+	if (source.binaryPropertyName) {
+		const binaryPropertyName = source.binaryPropertyName;
+		const binary = ctx.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+		const label = `Binary property "${binaryPropertyName}"`;
+		// Binary data without an ID is stored on the item itself, so only that item can share it
+		const key = binary.id ? `binary:${binary.id}` : `binary:${itemIndex}:${binaryPropertyName}`;
+		return cache.load(key, async () => {
+			if (binary.id) {
+				return writeStreamToFile(workspace, await ctx.helpers.getBinaryStream(binary.id), 'binary', label);
+			}
+			const buffer = await ctx.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+			return writeBufferToFile(workspace, buffer, 'binary', label);
+		});
+	}
+	return cache.load(`url:${source.mediaUrl}`, () => downloadMedia(ctx, workspace, source.mediaUrl));
+}
+
+/**
+ * Load small media (logos, subtitles, cover images) into memory, with the
+ * same size limit as loadMediaFile.
+ */
+async function loadMedia(
+	ctx: IExecuteFunctions,
+	workspace: MediaWorkspace,
+	cache: MediaCache,
+	itemIndex: number,
+	source: { mediaUrl: string; binaryPropertyName?: string },
+): Promise<Buffer> {
+	return fs.promises.readFile(await loadMediaFile(ctx, workspace, cache, itemIndex, source));
+}
+
+/**
+ * Create the item's media workspace from the Media Handling settings. The
+ * execution's cancel signal removes it and stops ffmpeg if the workflow is
+ * cancelled mid-item.
+ */
+async function openWorkspace(ctx: IExecuteFunctions, i: number): Promise<MediaWorkspace> {
+	const settings = ctx.getNodeParameter('mediaHandling', i, {}) as IDataObject;
+	return createWorkspace({
+		maxBytes: ((settings.maxMediaSizeMb as number) ?? 1024) * 1024 * 1024,
+		signal: ctx.getExecutionCancelSignal?.(),
+		baseDir: ((settings.tempDirectory as string) ?? '').trim() || undefined,
+	});
+}
+
+/**
+ * Assign carousel alt texts, given one per line in item order. Blank lines
+ * leave the matching item without alt text.
+ */
+function applyCarouselAltTexts(items: CarouselItem[], altTexts: string): CarouselItem[] {
+	if (!altTexts) return items;
+	const lines = altTexts.split('\n').map((l) => l.trim());
+	return items.map((item, idx) => (lines[idx] ? { ...item, altText: lines[idx] } : item));
+}
+
+/**
+ * Load the watermark logo once per item so every converted image and video
+ * in the post gets the same overlay.
+ */
+async function readWatermark(
+	ctx: IExecuteFunctions,
+	workspace: MediaWorkspace,
+	cache: MediaCache,
+	i: number,
+): Promise<OverlayOptions | undefined> {
+	const source = ctx.getNodeParameter('watermarkSource', i, 'none') as 'none' | MediaInputSource;
+	if (source === 'none') return undefined;
+
+	const options = ctx.getNodeParameter('watermarkOptions', i, {}) as IDataObject;
+	const image = source === 'binary'
+		? await loadMedia(ctx, workspace, cache, i, {
+			mediaUrl: '',
+			binaryPropertyName: (ctx.getNodeParameter('watermarkBinaryPropertyName', i, 'watermark') as string).trim(),
+		})
+		: await loadMedia(ctx, workspace, cache, i, { mediaUrl: (ctx.getNodeParameter('watermarkUrl', i, '') as string).trim() });
+
+	return {
+		image,
+		position: (options.position as OverlayPosition) ?? 'bottom-right',
+		scale: ((options.scale as number) ?? 15) / 100,
+		margin: ((options.margin as number) ?? 3) / 100,
+		opacity: (options.opacity as number) ?? 0.8,
+	};
+}
+
+/**
+ * Load and parse the subtitle file for video posts. Parse errors are kept on
+ * the result so validation can report them per cue.
+ */
+async function readSubtitles(
+	ctx: IExecuteFunctions,
+	workspace: MediaWorkspace,
+	cache: MediaCache,
+	i: number,
+	publishTo: PublishTarget,
+): Promise<SubtitleSettings | undefined> {
+	const source = ctx.getNodeParameter('subtitleSource', i, 'none') as 'none' | MediaInputSource;
+	if (source === 'none') return undefined;
+
+	const mode = ctx.getNodeParameter('subtitleMode', i, 'burn') as SubtitleSettings['mode'];
+	if (mode === 'facebookTrack' && publishTo === 'instagram') {
+		throw new Error('A Facebook caption track needs the post to be published to Facebook. Use Burn In for Instagram.');
+	}
+
+	const options = ctx.getNodeParameter('subtitleOptions', i, {}) as IDataObject;
+	const file = source === 'binary'
+		? await loadMedia(ctx, workspace, cache, i, {
+			mediaUrl: '',
+			binaryPropertyName: (ctx.getNodeParameter('subtitleBinaryPropertyName', i, 'subtitles') as string).trim(),
+		})
+		: await loadMedia(ctx, workspace, cache, i, { mediaUrl: (ctx.getNodeParameter('subtitleUrl', i, '') as string).trim() });
+
+	return {
+		mode,
+		parsed: parseSubtitles(file.toString('utf8')),
+		fontSize: (options.fontSize as number) ?? 18,
+		color: (options.color as string) ?? '#FFFFFF',
+		position: (options.position as SubtitlePosition) ?? 'bottom',
+		locale: ((options.locale as string) ?? 'en_US').trim() || 'en_US',
+	};
+}
+
+/**
+ * Read the audio handling settings and load the optional external audio file
+ * into the workspace.
+ */
+async function readAudioOptions(
+	ctx: IExecuteFunctions,
+	workspace: MediaWorkspace,
+	cache: MediaCache,
+	i: number,
+	mediaType: string,
+): Promise<AudioOptions> {
+	const settings = ctx.getNodeParameter('audioSettings', i, {}) as IDataObject;
+	const audio: AudioOptions = {
+		missingAudio: (settings.missingAudio as AudioOptions['missingAudio']) ?? 'silent',
+	};
+	if (settings.normalizeLoudness as boolean) {
+		audio.loudness = {
+			integrated: (settings.targetLufs as number) ?? -14,
+			truePeak: (settings.truePeak as number) ?? -1.5,
+			range: (settings.loudnessRange as number) ?? 11,
+		};
+	}
+
+	const source = mediaType === 'video' || mediaType === 'story'
+		? ctx.getNodeParameter('audioTrackSource', i, 'none') as 'none' | MediaInputSource
+		: 'none';
+	if (source !== 'none') {
+		audio.external = {
+			file: source === 'binary'
+				? await loadMediaFile(ctx, workspace, cache, i, {
+					mediaUrl: '',
+					binaryPropertyName: (ctx.getNodeParameter('audioTrackBinaryPropertyName', i, 'audio') as string).trim(),
+				})
+				: await loadMediaFile(ctx, workspace, cache, i, {
+					mediaUrl: (ctx.getNodeParameter('audioTrackUrl', i, '') as string).trim(),
+				}),
+			mode: (settings.audioTrackMode as ExternalAudio['mode']) ?? 'mix',
+			volume: (settings.audioTrackVolume as number) ?? 1,
+		};
+	}
+	return audio;
+}
+
+function subtitleErrors(params: MetaPostParams): string[] {
+	return params.subtitles ? formatCueErrors(params.subtitles.parsed.errors) : [];
+}
+
+function splitList(value: string): string[] {
+	return value.split(',').map((v) => v.trim()).filter((v) => v.length > 0);
+}
+
+/**
+ * Parse user tags given one per line as "username x y" (commas also accepted
+ * as separators), with x/y as fractions of the image size from the top left.
+ */
+function parseUserTags(value: string): UserTag[] {
+	return value
+		.split('\n')
+		.map((line) => line.trim())
+		.filter((line) => line.length > 0)
+		.map((line) => {
+			const [rawName, rawX, rawY] = line.split(/[\s,]+/);
+			const username = (rawName || '').replace(/^@/, '');
+			const x = rawX === undefined ? 0.5 : Number(rawX);
+			const y = rawY === undefined ? 0.5 : Number(rawY);
+			if (!username || Number.isNaN(x) || Number.isNaN(y) || x < 0 || x > 1 || y < 0 || y > 1) {
+				throw new Error(
+					`Invalid user tag "${line}". Use "username x y" with x and y between 0 and 1, e.g. "metaforbusiness 0.5 0.5".`,
+				);
+			}
+			return { username, x, y };
+		});
+}
+
+/**
+ * Read carousel items from the structured "Carousel Items" editor. Each item
+ * has its own source; the type is taken from the override or auto-detected.
+ */
+async function readCarouselItemsFromEditor(ctx: IExecuteFunctions, i: number): Promise<CarouselItem[]> {
+	const collection = ctx.getNodeParameter('carouselItems', i, {}) as IDataObject;
+	const entries = (collection.item as IDataObject[] | undefined) ?? [];
+
+	return Promise.all(
+		entries.map(async (entry, idx) => {
+			const source = (entry.source as MediaInputSource) ?? 'url';
+			const mediaUrl = source === 'url' ? ((entry.url as string) ?? '').trim() : '';
+			const binaryPropertyName = source === 'binary'
+				? ((entry.binaryPropertyName as string) ?? 'data').trim()
+				: undefined;
+			if (source === 'url' && !mediaUrl) {
+				throw new Error(`Carousel item ${idx + 1} has no URL`);
+			}
+
+			const override = (entry.mediaType as string) ?? 'auto';
+			let itemType: 'image' | 'video';
+			if (override === 'image' || override === 'video') {
+				itemType = override;
+			} else if (binaryPropertyName) {
+				itemType = detectBinaryMediaType(ctx, i, binaryPropertyName);
+			} else {
+				itemType = await detectItemMediaType(ctx, mediaUrl);
+			}
+
+			const item: CarouselItem = { mediaType: itemType, mediaUrl, binaryPropertyName };
+			const altText = ((entry.altText as string) ?? '').trim();
+			if (altText) item.altText = altText;
+			const userTags = parseUserTags((entry.userTags as string) ?? '');
+			if (userTags.length > 0) item.userTags = userTags;
+			return item;
+		}),
+	);
+}
+
+const IG_MAX_USER_TAGS = 20;
+const IG_MAX_COLLABORATORS = 3;
+
+/**
+ * Check Instagram's tagging limits up front so a post never fails after its
+ * media has already been uploaded.
+ */
+function validateInstagramTags(params: MetaPostParams): void {
+	if (params.userTags.length > IG_MAX_USER_TAGS) {
+		throw new Error(
+			`Instagram allows at most ${IG_MAX_USER_TAGS} user tags per image, got ${params.userTags.length}`,
+		);
+	}
+	params.carouselItems.forEach((item, idx) => {
+		if (item.userTags && item.userTags.length > IG_MAX_USER_TAGS) {
+			throw new Error(
+				`Instagram allows at most ${IG_MAX_USER_TAGS} user tags per image, ` +
+				`carousel item ${idx + 1} has ${item.userTags.length}`,
+			);
+		}
+		if (item.userTags && item.mediaType === 'video') {
+			throw new Error(`Carousel item ${idx + 1} is a video — user tags are only supported on images`);
+		}
+	});
+	if (params.collaborators.length > IG_MAX_COLLABORATORS) {
+		throw new Error(
+			`Instagram allows at most ${IG_MAX_COLLABORATORS} collaborators, got ${params.collaborators.length}`,
+		);
+	}
+}
+
+async function readParams(
+	ctx: IExecuteFunctions,
+	i: number,
+	workspace: MediaWorkspace,
+	cache: MediaCache,
+): Promise<MetaPostParams> {
 	const mediaType = ctx.getNodeParameter('mediaType', i) as string;
-	const mediaUrl = ctx.getNodeParameter('mediaUrl', i) as string;
+	const carouselInputMode = mediaType === 'carousel'
+		? ctx.getNodeParameter('carouselInputMode', i, 'list') as string
+		: 'list';
+	const useItemEditor = carouselInputMode === 'items';
+	const inputSource = useItemEditor
+		? 'url'
+		: ctx.getNodeParameter('inputSource', i, 'url') as MediaInputSource;
+	const mediaUrl = inputSource === 'url' && !useItemEditor
+		? (ctx.getNodeParameter('mediaUrl', i) as string)
+		: '';
+	const binaryPropertyName = inputSource === 'binary'
+		? (ctx.getNodeParameter('binaryPropertyName', i, 'data') as string).trim()
+		: '';
+	const coverBinaryPropertyName = inputSource === 'binary' && mediaType === 'video'
+		? (ctx.getNodeParameter('coverBinaryPropertyName', i, '') as string).trim()
+		: '';
+	const publishTo = ctx.getNodeParameter('publishTo', i, 'both') as PublishTarget;
+	const instagramAccountId = publishTo !== 'facebook'
+		? (ctx.getNodeParameter('instagramAccountId', i, '') as string).trim()
+		: '';
+	const facebookPageId = (ctx.getNodeParameter('facebookPageId', i, '') as string).trim();
+	if (publishTo !== 'facebook' && !instagramAccountId) {
+		throw new Error('Instagram Account ID is required when publishing to Instagram');
+	}
+	if (publishTo !== 'instagram' && !facebookPageId) {
+		throw new Error('Facebook Page ID is required when publishing to Facebook');
+	}
+	const platformCaptions = ctx.getNodeParameter('platformCaptions', i, {}) as IDataObject;
 	const imageSettings = ctx.getNodeParameter('imageSettings', i, {}) as IDataObject;
 	const videoSettings = ctx.getNodeParameter('videoSettings', i, {}) as IDataObject;
+	const videoTrim = ctx.getNodeParameter('videoTrim', i, {}) as IDataObject;
+	const mediaHandling = ctx.getNodeParameter('mediaHandling', i, {}) as IDataObject;
+	const watermark = await readWatermark(ctx, workspace, cache, i);
+	const subtitles = mediaType === 'video' ? await readSubtitles(ctx, workspace, cache, i, publishTo) : undefined;
+	const audio = mediaType === 'image'
+		? { missingAudio: 'silent' as const }
+		: await readAudioOptions(ctx, workspace, cache, i, mediaType);
+
+	const altText = mediaType === 'image' || (mediaType === 'carousel' && !useItemEditor)
+		? (ctx.getNodeParameter('altText', i, '') as string).trim()
+		: '';
 
 	let carouselItems: CarouselItem[] = [];
 	if (mediaType === 'carousel') {
-		const urls = mediaUrl.split(',').map((u) => u.trim()).filter((u) => u.length > 0);
-		carouselItems = await Promise.all(
-			urls.map(async (u) => ({
-				mediaType: await detectItemMediaType(ctx, u),
-				mediaUrl: u,
-			})),
-		);
+		if (useItemEditor) {
+			carouselItems = await readCarouselItemsFromEditor(ctx, i);
+		} else if (inputSource === 'binary') {
+			carouselItems = splitList(binaryPropertyName).map((prop) => ({
+				mediaType: detectBinaryMediaType(ctx, i, prop),
+				mediaUrl: '',
+				binaryPropertyName: prop,
+			}));
+		} else {
+			carouselItems = await Promise.all(
+				splitList(mediaUrl).map(async (u) => ({
+					mediaType: await detectItemMediaType(ctx, u),
+					mediaUrl: u,
+				})),
+			);
+		}
 	}
 
-	return {
-		mediaType: mediaType as 'image' | 'video' | 'carousel',
+	let storyMediaType: 'image' | 'video' | undefined;
+	if (mediaType === 'story') {
+		storyMediaType = inputSource === 'binary'
+			? detectBinaryMediaType(ctx, i, binaryPropertyName)
+			: await detectItemMediaType(ctx, mediaUrl.trim());
+	}
+
+	const userTags = mediaType === 'image'
+		? parseUserTags(ctx.getNodeParameter('userTags', i, '') as string)
+		: [];
+	const collaborators = mediaType === 'image' || mediaType === 'video' || mediaType === 'carousel'
+		? splitList(ctx.getNodeParameter('collaborators', i, '') as string).map((c) => c.replace(/^@/, ''))
+		: [];
+
+	const params: MetaPostParams = {
+		itemIndex: i,
+		workspace,
+		cache,
+		cacheDirectory: ((mediaHandling.cacheDirectory as string) ?? '').trim() || undefined,
+		artifacts: createArtifactTracker(ctx.getNodeParameter('keepFailedArtifacts', i, false) as boolean),
+		mediaType: mediaType as MetaPostParams['mediaType'],
+		storyMediaType,
+		inputSource,
 		mediaUrl,
-		carouselItems,
+		binaryPropertyName,
+		coverBinaryPropertyName,
+		carouselItems: applyCarouselAltTexts(carouselItems, altText),
+		altText: mediaType === 'image' ? altText : '',
+		userTags,
+		collaborators,
+		firstComment: mediaType === 'story'
+			? ''
+			: (ctx.getNodeParameter('firstComment', i, '') as string).trim(),
 		caption: ctx.getNodeParameter('caption', i, '') as string,
 		hashSuffix: ctx.getNodeParameter('hashSuffix', i, '') as string,
+		instagramCaption: (platformCaptions.instagramCaption as string) ?? '',
+		instagramHashSuffix: (platformCaptions.instagramHashSuffix as string) ?? '',
+		facebookCaption: (platformCaptions.facebookCaption as string) ?? '',
+		facebookHashSuffix: (platformCaptions.facebookHashSuffix as string) ?? '',
 		location: ctx.getNodeParameter('location', i, '') as string,
-		instagramAccountId: ctx.getNodeParameter('instagramAccountId', i) as string,
-		facebookPageId: ctx.getNodeParameter('facebookPageId', i) as string,
+		aspectRatio: mediaType === 'story'
+			? 'original'
+			: ctx.getNodeParameter('aspectRatio', i, 'original') as AspectRatioSetting,
+		fitMode: ctx.getNodeParameter('fitMode', i, 'pad') as FitMode,
+		padColor: (ctx.getNodeParameter('padColor', i, 'black') as string).trim() || 'black',
+		watermark,
+		subtitles,
+		audio,
+		publishTo,
+		facebookVideoFormat: mediaType === 'video' || mediaType === 'carousel'
+			? ctx.getNodeParameter('facebookVideoFormat', i, 'video') as FacebookVideoFormat
+			: 'video',
+		instagramAccountId,
+		facebookPageId,
 		graphApiVersion: ctx.getNodeParameter('graphApiVersion', i, 'v25.0') as string,
 		imageMaxWidth: (imageSettings.imageMaxWidth as number) ?? 1080,
 		imageMaxHeight: (imageSettings.imageMaxHeight as number) ?? 1920,
@@ -155,226 +616,101 @@ async function readParams(ctx: IExecuteFunctions, i: number): Promise<MetaPostPa
 		videoMaxWidth: (videoSettings.videoMaxWidth as number) ?? 1080,
 		videoMaxHeight: (videoSettings.videoMaxHeight as number) ?? 1920,
 		videoMaxBitrate: (videoSettings.videoMaxBitrate as string) ?? '4500k',
+		videoAlwaysReencode: (videoSettings.alwaysReencode as boolean) ?? false,
+		trimStart: (videoTrim.startOffset as number) ?? 0,
+		trimMaxDuration: (videoTrim.maxDuration as number) ?? 0,
+		trimToPlatformLimit: (videoTrim.fitToPlatformLimit as boolean) ?? false,
+		coverFrameTime: mediaType === 'video'
+			? parseCoverFrameTime(ctx.getNodeParameter('coverFrameTime', i, '') as string)
+			: undefined,
+		uploadChunkSize: ((mediaHandling.uploadChunkSizeMb as number) ?? 8) * 1024 * 1024,
+		uploadRetries: (mediaHandling.uploadRetries as number) ?? 4,
+		carouselConcurrency: (mediaHandling.carouselConcurrency as number) ?? 3,
 	};
+	params.publishAt = parsePublishAt(ctx.getNodeParameter('publishAt', i, '') as string, params);
+	validateInstagramTags(params);
+	return params;
 }
 
-// ── Image Flow ─────────────────────────────────────────────────────
-
-async function handleImage(
-	ctx: IExecuteFunctions,
-	userAccessToken: string,
-	pageAccessToken: string,
-	params: MetaPostParams,
-	caption: string,
-): Promise<MetaPostResult> {
-	const { instagramAccountId, facebookPageId, graphApiVersion, mediaUrl, locationId } = params;
-
-	let fbPhotoId: string | undefined;
-	let igContainerId: string;
-
-	// Step 1: Try creating IG container with original URL
-	// Use ignoreHttpStatusErrors + returnFullResponse so we can inspect the response
-	// for format errors (Instagram rejects certain image formats like WebP)
-	const containerResp = await graphApi.tryCreateIgImageContainer(
-		ctx, userAccessToken, instagramAccountId, mediaUrl, caption, graphApiVersion, locationId,
-	);
-
-	if (containerResp.statusCode >= 200 && containerResp.statusCode < 300 && containerResp.body?.id) {
-		igContainerId = containerResp.body.id;
-	} else {
-		// Check for format error in response headers and body (matching workflow logic)
-		const wwwAuth = (containerResp.headers?.['www-authenticate'] as string) || '';
-		const bodyMsg = containerResp.body?.error?.message || '';
-		const errorText = wwwAuth + ' ' + bodyMsg;
-		const isFormatError = errorText.includes('Only photo or video can be accepted');
-
-		if (!isFormatError) {
-			throw new Error(
-				`Instagram container creation failed (HTTP ${containerResp.statusCode}): ${bodyMsg || JSON.stringify(containerResp.body)}`,
-			);
-		}
-
-		// Step 2: Convert image and retry via Facebook CDN
-		const imageBuffer = await downloadMedia(ctx, mediaUrl);
-		const convertedBuffer = await convertImage(imageBuffer, {
-			maxWidth: params.imageMaxWidth,
-			maxHeight: params.imageMaxHeight,
-			outputFormat: params.imageOutputFormat,
-		});
-
-		const ext = params.imageOutputFormat;
-		const mime = ext === 'jpeg' ? 'image/jpeg' : 'image/png';
-
-		// Upload to Facebook as unpublished photo to get a CDN URL
-		const fbPhoto = await graphApi.uploadFbPhotoFromBuffer(
-			ctx, pageAccessToken, facebookPageId,
-			convertedBuffer, `converted.${ext}`, mime, false, graphApiVersion,
-		);
-		fbPhotoId = fbPhoto.id;
-
-		// Get CDN URL from Facebook
-		const photoImages = await graphApi.getFbPhotoImages(
-			ctx, pageAccessToken, fbPhotoId, graphApiVersion,
-		);
-		const cdnUrl = photoImages.images[0]?.source;
-		if (!cdnUrl) {
-			throw new Error('Could not retrieve CDN URL for converted image from Facebook');
-		}
-
-		// Retry IG container with Facebook CDN URL
-		const retryContainer = await graphApi.createIgImageContainer(
-			ctx, userAccessToken, instagramAccountId, cdnUrl, caption, graphApiVersion, locationId,
-		);
-		igContainerId = retryContainer.id;
-	}
-
-	// Step 3: Publish IG post (retry – container may still be processing)
-	const igPost = await publishIgContainerWithRetry(
-		ctx, userAccessToken, instagramAccountId, igContainerId, graphApiVersion,
-	);
-
-	// Step 4: Upload photo to Facebook (if not already done during conversion).
-	// Always go through download + convertImage + buffer upload — Facebook's /photos
-	// endpoint rejects URLs whose target exceeds 10 MB (subcode 1366046), even when
-	// Instagram accepts the same URL. Local conversion also normalises the format.
-	if (!fbPhotoId) {
-		const imageBuffer = await downloadMedia(ctx, mediaUrl);
-		const convertedBuffer = await convertImage(imageBuffer, {
-			maxWidth: params.imageMaxWidth,
-			maxHeight: params.imageMaxHeight,
-			outputFormat: params.imageOutputFormat,
-		});
-		const ext = params.imageOutputFormat;
-		const mime = ext === 'jpeg' ? 'image/jpeg' : 'image/png';
-		const fbPhoto = await graphApi.uploadFbPhotoFromBuffer(
-			ctx, pageAccessToken, facebookPageId,
-			convertedBuffer, `photo.${ext}`, mime, false, graphApiVersion,
-		);
-		fbPhotoId = fbPhoto.id;
-	}
-
-	// Step 5: Create Facebook feed post with attached photo
-	const fbFeedPost = await graphApi.createFbFeedPost(
-		ctx, pageAccessToken, facebookPageId, caption, fbPhotoId, graphApiVersion, locationId,
-	);
+function publishesToInstagram(params: MetaPostParams): boolean {
+	return params.publishTo !== 'facebook';
+}
 
-	// Step 6: Get IG permalink
-	const igPermalink = await graphApi.getIgPermalink(
-		ctx, userAccessToken, igPost.id, graphApiVersion,
-	);
+function publishesToFacebook(params: MetaPostParams): boolean {
+	return params.publishTo !== 'instagram';
+}
 
+function imageConvertOptions(params: MetaPostParams): ImageConvertOptions {
 	return {
-		instagram_post_id: igPost.id,
-		instagram_permalink: igPermalink.permalink,
-		facebook_post_id: fbFeedPost.id,
-		facebook_photo_id: fbPhotoId,
-		location_id: locationId,
+		maxWidth: params.imageMaxWidth,
+		maxHeight: params.imageMaxHeight,
+		outputFormat: params.imageOutputFormat,
+		...frameOptions(params),
+		overlay: params.watermark,
 	};
 }
 
-// ── Video Flow ─────────────────────────────────────────────────────
-
-async function pollIgContainer(
-	ctx: IExecuteFunctions,
-	userAccessToken: string,
-	containerId: string,
-	apiVersion: string,
-): Promise<void> {
-	const maxTotalMs = 3 * 60 * 1000;
-	const start = Date.now();
-	// Start at 20s and grow the interval to keep the number of status calls low —
-	// polling is the biggest consumer of Meta's per-hour API quota.
-	let interval = 20000;
-	let rateLimitRetried = false;
-	let pollCount = 0;
-	let lastStatusCode = '(none)';
-	let lastStatusDetail = '';
-
-	while (Date.now() - start < maxTotalMs) {
-		await sleep(interval);
-
-		let status: IgStatusResponse;
-		try {
-			status = await graphApi.getIgContainerStatus(
-				ctx, userAccessToken, containerId, apiVersion,
-			);
-		} catch (err) {
-			// Rate limit (#4 etc.) is app-wide — retrying just burns more of the
-			// exhausted quota. Retry once for a brief spike, then fail fast with
-			// actionable guidance instead of hammering the API.
-			if (isRateLimitError(err)) {
-				if (!rateLimitRetried) {
-					rateLimitRetried = true;
-					await sleep(45000);
-					continue;
-				}
-				throw new Error(
-					'Instagram Reel could not be published: Meta "(#4) Application request limit ' +
-					'reached". Your Meta app is over its API rate limit — this is app-wide, not ' +
-					'specific to this post. Wait ~1 hour without calling the Meta API (pause other ' +
-					'Meta workflows too), reduce call volume, or request a higher limit in the Meta ' +
-					'App Dashboard, then retry.',
-				);
-			}
-			throw err;
-		}
-		pollCount++;
-		lastStatusCode = status.status_code ?? '(empty)';
-		lastStatusDetail = status.status ?? '';
+const ASPECT_RATIOS: Record<Exclude<AspectRatioSetting, 'original' | 'auto'>, number> = {
+	'9:16': 9 / 16,
+	'4:5': 4 / 5,
+	'1:1': 1,
+	'1.91:1': 1.91,
+};
 
-		if (status.status_code === 'FINISHED') return;
+/**
+ * 'auto' snaps feed media into Instagram's 4:5 to 1.91:1 range. Reels are not
+ * held to that range (9:16 is their native ratio), so for single video posts
+ * it keeps the source ratio like 'original'.
+ */
+function keepsSourceRatio(params: MetaPostParams): boolean {
+	return params.aspectRatio === 'original' || (params.aspectRatio === 'auto' && params.mediaType === 'video');
+}
 
-		if (status.status_code === 'ERROR' || status.status_code === 'EXPIRED') {
-			throw new Error(
-				`Instagram Reel processing failed: ${status.status || status.status_code}. ` +
-				'Ensure the video meets Instagram Reels requirements ' +
-				'(MP4 H.264, max 5 Mbps bitrate, max 90s, 9:16 aspect ratio recommended).',
-			);
-		}
+/**
+ * Stories always fill the 9:16 story canvas; other posts are reframed to the
+ * selected aspect ratio, or keep their own when it is 'original'.
+ */
+function frameOptions(params: MetaPostParams): FrameOptions {
+	const frame: FrameOptions = { fitMode: params.fitMode, padColor: params.padColor };
+	if (params.mediaType === 'story') return { ...frame, canvas: STORY_CANVAS };
+	if (params.resolvedAspectRatio) return { ...frame, aspectRatio: params.resolvedAspectRatio };
+	if (params.aspectRatio === 'original' || keepsSourceRatio(params)) return frame;
+	if (params.aspectRatio === 'auto') return { ...frame, aspectRatio: 'auto' };
+	return { ...frame, aspectRatio: ASPECT_RATIOS[params.aspectRatio] };
+}
 
-		interval = Math.min(interval + 5000, 30000);
-	}
+function reframesMedia(params: MetaPostParams): boolean {
+	return params.mediaType !== 'story' && !keepsSourceRatio(params);
+}
 
-	const mins = Math.round((Date.now() - start) / 60000);
-	throw new Error(
-		`Instagram Reel status polling timed out after ${mins} min (${pollCount} status polls, ` +
-		`last status_code=${lastStatusCode}${lastStatusDetail ? `, detail="${lastStatusDetail}"` : ''}). ` +
-		'The container never reached FINISHED — the video is likely still processing or does not meet ' +
-		'Reels requirements (MP4 H.264, max 5 Mbps bitrate, max 90s).',
-	);
+// Reframed or watermarked images must be converted locally, so Instagram can't
+// fetch the source URL directly
+function convertsImagesLocally(params: MetaPostParams): boolean {
+	return reframesMedia(params) || !!params.watermark;
 }
 
-async function handleVideo(
+/**
+ * Whether this image has to be converted locally. 'auto' only reframes images
+ * outside Instagram's range, so the image is probed: one that already fits is
+ * passed to Instagram by URL and needs no staging page.
+ */
+async function convertsImageLocally(
 	ctx: IExecuteFunctions,
-	userAccessToken: string,
-	pageAccessToken: string,
 	params: MetaPostParams,
-	caption: string,
-): Promise<MetaPostResult> {
-	const { instagramAccountId, facebookPageId, graphApiVersion, locationId } = params;
-
-	// Parse media URL: if comma-separated, split into video + cover image
-	let videoUrl: string;
-	let coverUrl: string | undefined;
-	const urls = params.mediaUrl.split(',').map((u) => u.trim()).filter((u) => u.length > 0);
-	if (urls.length >= 2) {
-		const detected = await Promise.all(
-			urls.map(async (u) => ({ url: u, type: await detectItemMediaType(ctx, u) })),
-		);
-		const video = detected.find((d) => d.type === 'video');
-		const image = detected.find((d) => d.type === 'image');
-		if (!video) {
-			throw new Error('No video URL found. When providing two URLs for a video post, one must be a video.');
-		}
-		videoUrl = video.url;
-		coverUrl = image?.url;
-	} else {
-		videoUrl = urls[0];
-	}
+	source: { mediaUrl: string; binaryPropertyName?: string },
+): Promise<boolean> {
+	if (!convertsImagesLocally(params)) return false;
+	const frame = frameOptions(params);
+	if (params.watermark || frame.aspectRatio !== 'auto') return true;
+
+	const imagePath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, source);
+	const { video } = await probeMedia(imagePath, params.workspace.signal);
+	if (!video) return true;
+	return resolveCanvas(frame, params.imageMaxWidth, params.imageMaxHeight, video.width, video.height) !== undefined;
+}
 
-	// Step 1: Download and convert video
-	const videoBuffer = await downloadMedia(ctx, videoUrl);
-	const convertedBuffer = await convertVideo(videoBuffer, {
+function videoConvertOptions(params: MetaPostParams): VideoConvertOptions {
+	return {
 		videoCodec: params.videoCodec,
 		crf: params.videoCrf,
 		preset: params.videoPreset,
@@ -386,211 +722,1441 @@ async function handleVideo(
 		maxWidth: params.videoMaxWidth,
 		maxHeight: params.videoMaxHeight,
 		maxBitrate: params.videoMaxBitrate,
-	});
-
-	// Step 2: Upload converted video to Facebook (published) — runs in parallel with IG flow
-	// Also download cover image (if provided) so we can use it as FB thumbnail
-	let fbThumbnail: { buffer: Buffer; mimeType: string; filename: string } | undefined;
-	if (coverUrl) {
-		try {
-			const coverBuffer = await downloadMedia(ctx, coverUrl);
-			const ext = detectItemMediaTypeByExt(coverUrl);
-			// Derive mime type from URL extension; default to JPEG
-			const url = new URL(coverUrl);
-			const lower = url.pathname.toLowerCase();
-			let mime = 'image/jpeg';
-			let fname = 'cover.jpg';
-			if (lower.endsWith('.png')) { mime = 'image/png'; fname = 'cover.png'; }
-			else if (lower.endsWith('.gif')) { mime = 'image/gif'; fname = 'cover.gif'; }
-			else if (lower.endsWith('.webp')) { mime = 'image/webp'; fname = 'cover.webp'; }
-			fbThumbnail = { buffer: coverBuffer, mimeType: mime, filename: fname };
-			void ext; // suppress unused
-		} catch {
-			// Cover download failed — proceed without thumbnail
-		}
-	}
-	const fbVideoPromise = graphApi.uploadFbVideoFromBuffer(
-		ctx, pageAccessToken, facebookPageId,
-		convertedBuffer, 'video.mp4', caption, true, graphApiVersion, locationId, fbThumbnail,
-	);
-
-	// Step 3-6: IG flow — wrapped in try-catch to clean up FB video on failure
-	let igPost: { id: string };
-	try {
-		// Step 3: Create IG Reel container via resumable upload (no public URL needed)
-		const igContainer = await graphApi.createIgReelContainerResumable(
-			ctx, userAccessToken, instagramAccountId,
-			caption, graphApiVersion, coverUrl, locationId,
-		);
-
-		// Step 4: POST the video bytes to Instagram's upload endpoint
-		await graphApi.uploadIgVideoBytes(
-			ctx, userAccessToken, igContainer.uri, convertedBuffer,
-		);
+		...frameOptions(params),
+		alwaysReencode: params.videoAlwaysReencode,
+		trim: videoTrimOptions(params),
+		overlay: params.watermark,
+		audio: params.audio,
+		subtitles: params.subtitles?.mode === 'burn'
+			? {
+				cues: params.subtitles.parsed.cues,
+				fontSize: params.subtitles.fontSize,
+				color: params.subtitles.color,
+				position: params.subtitles.position,
+			}
+			: undefined,
+	};
+}
 
-		// Step 5: Poll IG container status
-		await pollIgContainer(ctx, userAccessToken, igContainer.id, graphApiVersion);
+function videoPlacement(params: MetaPostParams): VideoPlacement {
+	if (params.mediaType === 'story') return 'story';
+	if (publishesToInstagram(params)) return params.mediaType === 'carousel' ? 'carousel' : 'reel';
+	return params.facebookVideoFormat === 'reel' ? 'reel' : 'page';
+}
 
-		// Step 6: Publish IG Reel (retry – may briefly lag behind status poll)
-		igPost = await publishIgContainerWithRetry(
-			ctx, userAccessToken, instagramAccountId, igContainer.id, graphApiVersion,
-		);
-	} catch (error) {
-		// IG failed — clean up the parallel FB video upload so we don't leave orphaned posts
-		try {
-			const fbVideo = await fbVideoPromise;
-			await graphApi.deleteFbVideo(ctx, pageAccessToken, fbVideo.id, graphApiVersion);
-		} catch {
-			// Ignore cleanup errors — the IG error is what matters
-		}
+/**
+ * Combine the manual trim with the platform limit; the shorter maximum wins.
+ */
+function videoTrimOptions(params: MetaPostParams): TrimOptions | undefined {
+	const maxDurations: number[] = [];
+	if (params.trimMaxDuration > 0) maxDurations.push(params.trimMaxDuration);
+	if (params.trimToPlatformLimit) maxDurations.push(VIDEO_DURATION_LIMITS[videoPlacement(params)].max);
 
-		const msg = (error as Error).message || '';
-		if (msg.includes('2207089') || msg.toLowerCase().includes('carousel')) {
-			throw new Error(
-				'Instagram rejected the video as a Reel. The video likely exceeds Instagram Reels ' +
-				'requirements (max 5 Mbps bitrate, H.264 High profile, max 90s duration). ' +
-				'Please re-encode the source video to a lower bitrate before posting. ' +
-				`(Original error: ${msg})`,
-			);
-		}
-		throw error;
-	}
+	if (params.trimStart <= 0 && maxDurations.length === 0) return undefined;
+	return {
+		start: Math.max(0, params.trimStart),
+		maxDuration: maxDurations.length > 0 ? Math.min(...maxDurations) : undefined,
+	};
+}
 
-	// Step 7: Wait for FB upload to complete
-	const fbVideo = await fbVideoPromise;
+/**
+ * Probe the video and pass through, remux or re-encode it as needed.
+ * The probe and the decision are recorded on the result.
+ */
+async function processVideo(
+	params: MetaPostParams,
+	videoPath: string,
+	result: MetaPostResult,
+	// Report slot for videos processed concurrently; appended when omitted
+	position?: number,
+): Promise<string> {
+	const options = videoConvertOptions(params);
+	const external = options.audio?.external;
+	const key = cacheKey('video', await hashFile(videoPath), {
+		...options,
+		audio: options.audio && {
+			...options.audio,
+			external: external && { ...external, file: await hashFile(external.file) },
+		},
+	});
+	// A passthrough caches only its report; the upload then uses the source file
+	const prepared = await params.cache.convert(key, async () => {
+		const { path, report } = await prepareVideo(params.workspace, videoPath, options);
+		return { path: path === videoPath ? undefined : path, meta: report };
+	}, params.cacheDirectory);
+	const reports = (result.video_processing ??= []);
+	reports[position ?? reports.length] = prepared.meta;
+	return prepared.path ?? videoPath;
+}
 
-	// Step 8: Get IG permalink
-	const igPermalink = await graphApi.getIgPermalink(
-		ctx, userAccessToken, igPost.id, graphApiVersion,
-	);
+/**
+ * Convert an image with the post's image settings, reusing an earlier
+ * conversion of the same content and settings.
+ */
+async function convertImageCached(params: MetaPostParams, imagePath: string): Promise<Buffer> {
+	const options = imageConvertOptions(params);
+	const key = cacheKey('image', await hashFile(imagePath), options);
+	const converted = await params.cache.convert(key, async () => {
+		const output = params.workspace.file(`converted.${options.outputFormat}`);
+		await fs.promises.writeFile(output, await convertImage(params.workspace, imagePath, options));
+		return { path: output, meta: null };
+	}, params.cacheDirectory);
+	return fs.promises.readFile(converted.path as string);
+}
 
+/**
+ * Chunked upload settings for one video upload. Progress is logged per chunk,
+ * sent to the editor's browser console during manual runs, and summarised
+ * under uploads on the result.
+ */
+function uploadOptions(
+	ctx: IExecuteFunctions,
+	params: MetaPostParams,
+	result: MetaPostResult,
+	target: string,
+): graphApi.ChunkedUploadOptions {
+	const summary: UploadSummary = { target, total_bytes: 0, sent_bytes: 0, chunks: 0, retries: 0 };
+	(result.uploads ??= []).push(summary);
 	return {
-		instagram_post_id: igPost.id,
-		instagram_permalink: igPermalink.permalink,
-		facebook_post_id: `${facebookPageId}_${fbVideo.id}`,
-		facebook_video_id: fbVideo.id,
-		location_id: locationId,
+		chunkSize: params.uploadChunkSize,
+		maxRetries: params.uploadRetries,
+		onProgress: (progress) => {
+			summary.total_bytes = progress.totalBytes;
+			summary.sent_bytes = progress.sentBytes;
+			summary.chunks = progress.chunks;
+			summary.retries = progress.retries;
+			const percent = Math.floor((progress.sentBytes / progress.totalBytes) * 100);
+			const message = `${progress.context}: ${percent}% (${progress.sentBytes}/${progress.totalBytes} bytes, ` +
+				`${progress.retries} retries)`;
+			ctx.logger?.info(message);
+			ctx.sendMessageToUI?.(message);
+		},
 	};
 }
 
+/**
+ * Exchange the user token for a page token when the post goes to Facebook,
+ * and resolve the optional location. Instagram-only posts fetch the token of
+ * their staging page only once an image actually has to be staged.
+ */
+async function resolveAccounts(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	params: MetaPostParams,
+): Promise<string> {
+	let pageAccessToken = '';
+	if (publishesToFacebook(params) && params.facebookPageId) {
+		const pageTokenResp = await graphApi.getPageAccessToken(
+			ctx, userAccessToken, params.facebookPageId, params.graphApiVersion,
+		);
+		pageAccessToken = pageTokenResp.access_token;
+	}
+
+	// Resolve optional location to a Facebook Place ID (shared by IG location_id and FB place)
+	if (params.location && params.location.trim().length > 0) {
+		params.locationId = await graphApi.searchPlaceId(
+			ctx, userAccessToken, params.location, params.graphApiVersion,
+		);
+	}
+	return pageAccessToken;
+}
+
+// ── Partial Results ────────────────────────────────────────────────
+
+/**
+ * Message for a failed step, preferring the Graph API's error description.
+ */
+function errorDetail(error: unknown): string {
+	const err = error as any;
+	return err.description || err.cause?.body?.error?.message || err.message || 'Unknown error';
+}
+
+function isPublishedOn(result: MetaPostResult, platform: Platform): boolean {
+	return platform === 'instagram'
+		? !!(result.instagram_post_id || result.instagram_story_id || result.instagram_container_id)
+		: !!(result.facebook_post_id || result.facebook_story_id);
+}
+
+/**
+ * Record a platform that failed while the other one published, and roll
+ * back what the failed platform had created.
+ */
+async function failPlatform(
+	params: MetaPostParams,
+	result: MetaPostResult,
+	platform: Platform,
+	error: unknown,
+): Promise<void> {
+	(result.platform_errors ??= {})[platform] = errorDetail(error);
+	const cleaned = await params.artifacts.rollback(platform);
+	if (cleaned.length > 0) result.cleaned_up = [...(result.cleaned_up ?? []), ...cleaned];
+}
+
+/**
+ * Run a platform's remaining steps. Once the other platform is published a
+ * failure no longer fails the item: it is recorded in platform_errors so the
+ * published IDs are returned and a Resume run can finish the missing platform.
+ */
+async function completePlatform(
+	params: MetaPostParams,
+	result: MetaPostResult,
+	platform: Platform,
+	step: () => Promise<void>,
+): Promise<void> {
+	try {
+		await step();
+	} catch (error) {
+		if (!isPublishedOn(result, platform === 'instagram' ? 'facebook' : 'instagram')) throw error;
+		await failPlatform(params, result, platform, error);
+	}
+}
+
+/**
+ * The post is already live when the permalink is looked up, so a failure is
+ * only a warning.
+ */
+async function addIgPermalink(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	params: MetaPostParams,
+	result: MetaPostResult,
+	igPostId: string,
+): Promise<void> {
+	try {
+		const igPermalink = await graphApi.getIgPermalink(ctx, userAccessToken, igPostId, params.graphApiVersion);
+		result.instagram_permalink = igPermalink.permalink;
+	} catch (error) {
+		(result.warnings ??= []).push(`Instagram permalink could not be retrieved: ${errorDetail(error)}`);
+	}
+}
+
+function setPlatformStatus(result: MetaPostResult): MetaPostResult {
+	const state = (platform: Platform): PlatformState => {
+		if (result.platform_errors?.[platform]) return 'failed';
+		return isPublishedOn(result, platform) ? 'published' : 'skipped';
+	};
+	result.platform_status = { instagram: state('instagram'), facebook: state('facebook') };
+	return result;
+}
+
+function parsePreviousResult(value: unknown): MetaPostResult {
+	let previous = value;
+	if (typeof previous === 'string') {
+		try {
+			previous = JSON.parse(previous);
+		} catch {
+			throw new Error('Previous Result must be the JSON output of an earlier post');
+		}
+	}
+	if (!previous || typeof previous !== 'object' || Array.isArray(previous)) {
+		throw new Error('Previous Result must be the JSON output of an earlier post');
+	}
+	return previous as MetaPostResult;
+}
+
+/**
+ * Targets of the post the previous result has not published yet, or
+ * undefined when it is complete.
+ */
+function remainingTarget(publishTo: PublishTarget, previous: MetaPostResult): PublishTarget | undefined {
+	const instagram = publishTo !== 'facebook' && !isPublishedOn(previous, 'instagram');
+	const facebook = publishTo !== 'instagram' && !isPublishedOn(previous, 'facebook');
+	if (instagram && facebook) return 'both';
+	if (instagram) return 'instagram';
+	if (facebook) return 'facebook';
+	return undefined;
+}
+
+/**
+ * Combine the previous result with a Resume run that published the missing
+ * platform. The statuses are recomputed from the combined IDs.
+ */
+function mergeResumedResult(previous: MetaPostResult, resumed: MetaPostResult): MetaPostResult {
+	const merged: MetaPostResult = { ...previous, ...resumed, platform_errors: resumed.platform_errors };
+	delete merged.duplicate;
+	delete merged.first_published_at;
+	if (!merged.platform_errors) delete merged.platform_errors;
+	return setPlatformStatus(merged);
+}
+
+// ── Rollback ───────────────────────────────────────────────────────
+
+function trackFbPhoto(
+	ctx: IExecuteFunctions,
+	pageAccessToken: string,
+	params: MetaPostParams,
+	platform: Platform,
+	photoId: string,
+): void {
+	params.artifacts.track(platform, 'facebook_photo', photoId, () =>
+		graphApi.deleteFbPhoto(ctx, pageAccessToken, photoId, params.graphApiVersion),
+	);
+}
+
+function trackFbVideo(
+	ctx: IExecuteFunctions,
+	pageAccessToken: string,
+	params: MetaPostParams,
+	videoId: string,
+): void {
+	params.artifacts.track('facebook', 'facebook_video', videoId, () =>
+		graphApi.deleteFbVideo(ctx, pageAccessToken, videoId, params.graphApiVersion),
+	);
+}
+
+// IG containers cannot be deleted; unpublished ones expire after 24 hours
+function trackIgContainer(params: MetaPostParams, containerId: string): string {
+	params.artifacts.track('instagram', 'instagram_container', containerId);
+	return containerId;
+}
+
+function describeCleanup(cleaned: CleanedArtifact[]): string | undefined {
+	if (cleaned.length === 0) return undefined;
+	const lines = cleaned.map((a) => `${a.kind} ${a.id}: ${a.action}${a.error ? ` (${a.error})` : ''}`);
+	return `Rolled back after the failure:\n${lines.join('\n')}`;
+}
+
+// ── Image Flow ─────────────────────────────────────────────────────
+
+// Token of the staging page for Instagram-only posts, fetched once per item
+function stagingPageToken(ctx: IExecuteFunctions, userAccessToken: string, params: MetaPostParams): Promise<string> {
+	params.stagingPageToken ??= graphApi.getPageAccessToken(
+		ctx, userAccessToken, params.facebookPageId, params.graphApiVersion,
+	).then((resp) => resp.access_token);
+	return params.stagingPageToken;
+}
+
+/**
+ * True when Instagram refused an image container because of the file format
+ * (e.g. WebP) — recoverable by converting locally and retrying via the FB CDN.
+ */
+function isIgFormatError(resp: graphApi.FullResponse): boolean {
+	// Check for format error in response headers and body (matching workflow logic)
+	const wwwAuth = (resp.headers?.['www-authenticate'] as string) || '';
+	const bodyMsg = resp.body?.error?.message || '';
+	return (wwwAuth + ' ' + bodyMsg).includes('Only photo or video can be accepted');
+}
+
+/**
+ * Convert an image with the post's image settings and upload it to the Page
+ * as an unpublished photo, tracked for rollback under the given platform.
+ * Always uploads the file itself: Facebook's /photos endpoint rejects URLs
+ * whose target exceeds 10 MB (subcode 1366046), even when Instagram accepts
+ * the same URL.
+ */
+async function uploadConvertedFbPhoto(
+	ctx: IExecuteFunctions,
+	pageAccessToken: string,
+	params: MetaPostParams,
+	platform: Platform,
+	imagePath: string,
+	filenameBase: string,
+	options: { altText?: string; temporary?: boolean } = {},
+): Promise<string> {
+	const convertedBuffer = await convertImageCached(params, imagePath);
+	const ext = params.imageOutputFormat;
+	const mime = ext === 'jpeg' ? 'image/jpeg' : 'image/png';
+
+	const fbPhoto = await graphApi.uploadFbPhotoFromBuffer(
+		ctx, pageAccessToken, params.facebookPageId,
+		convertedBuffer, `${filenameBase}.${ext}`, mime, false, params.graphApiVersion, options.temporary,
+		options.altText,
+	);
+	trackFbPhoto(ctx, pageAccessToken, params, platform, fbPhoto.id);
+	return fbPhoto.id;
+}
+
+/**
+ * Convert an image locally and upload it to the Page as an unpublished photo.
+ * Returns the photo ID plus its Facebook CDN URL, which Instagram accepts as
+ * image_url when the original is not public or is in a format IG rejects.
+ */
+async function stageImageOnFacebook(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	pageAccessToken: string,
+	params: MetaPostParams,
+	imagePath: string,
+	filenameBase: string,
+	altText?: string,
+): Promise<{ photoId: string; cdnUrl: string }> {
+	if (!params.facebookPageId) {
+		throw new Error(
+			'Instagram cannot fetch this image directly (binary input or a format Instagram rejects), ' +
+			'so it has to be staged on Facebook\'s CDN first. Set a Facebook Page ID to stage it on — ' +
+			'the photo is uploaded unpublished and does not appear on the Page.',
+		);
+	}
+	pageAccessToken ||= await stagingPageToken(ctx, userAccessToken, params);
+
+	// Staged for Instagram; a Facebook post that reuses it takes it over
+	const photoId = await uploadConvertedFbPhoto(
+		ctx, pageAccessToken, params, 'instagram', imagePath, filenameBase,
+		{ altText, temporary: !!params.publishAt },
+	);
+
+	const photoImages = await graphApi.getFbPhotoImages(
+		ctx, pageAccessToken, photoId, params.graphApiVersion,
+	);
+	const cdnUrl = photoImages.images[0]?.source;
+	if (!cdnUrl) {
+		throw new Error('Could not retrieve CDN URL for converted image from Facebook');
+	}
+	return { photoId, cdnUrl };
+}
+
+async function handleImage(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	pageAccessToken: string,
+	params: MetaPostParams,
+	captions: PlatformCaptions,
+): Promise<MetaPostResult> {
+	const { instagramAccountId, facebookPageId, graphApiVersion, mediaUrl, locationId } = params;
+	const result: MetaPostResult = { location_id: locationId };
+
+	let fbPhotoId: string | undefined;
+	let igPost: { id: string } | undefined;
+
+	if (publishesToInstagram(params)) {
+		let igContainerId: string;
+
+		if (params.inputSource === 'binary' || await convertsImageLocally(ctx, params, { mediaUrl })) {
+			// Binary input has no public URL, and converted images differ from the
+			// source — stage the image on Facebook first and let Instagram fetch it
+			// from the CDN.
+			const imagePath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, {
+				mediaUrl, binaryPropertyName: params.binaryPropertyName || undefined,
+			});
+			const staged = await stageImageOnFacebook(
+				ctx, userAccessToken, pageAccessToken, params, imagePath, 'photo', params.altText,
+			);
+			fbPhotoId = staged.photoId;
+
+			const container = await graphApi.createIgImageContainer(
+				ctx, userAccessToken, instagramAccountId, staged.cdnUrl, captions.instagram, graphApiVersion, locationId,
+				params.altText, params.userTags, params.collaborators,
+			);
+			igContainerId = trackIgContainer(params, container.id);
+		} else {
+			// Step 1: Try creating IG container with original URL
+			// Use ignoreHttpStatusErrors + returnFullResponse so we can inspect the response
+			// for format errors (Instagram rejects certain image formats like WebP)
+			const containerResp = await graphApi.tryCreateIgImageContainer(
+				ctx, userAccessToken, instagramAccountId, mediaUrl, captions.instagram, graphApiVersion, locationId,
+				params.altText, params.userTags, params.collaborators,
+			);
+
+			if (containerResp.statusCode >= 200 && containerResp.statusCode < 300 && containerResp.body?.id) {
+				igContainerId = trackIgContainer(params, containerResp.body.id);
+			} else {
+				if (!isIgFormatError(containerResp)) {
+					const bodyMsg = containerResp.body?.error?.message || '';
+					throw new Error(
+						`Instagram container creation failed (HTTP ${containerResp.statusCode}): ${bodyMsg || JSON.stringify(containerResp.body)}`,
+					);
+				}
+
+				// Step 2: Convert image and retry via Facebook CDN
+				const imagePath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, { mediaUrl });
+				const staged = await stageImageOnFacebook(
+					ctx, userAccessToken, pageAccessToken, params, imagePath, 'converted', params.altText,
+				);
+				fbPhotoId = staged.photoId;
+
+				// Retry IG container with Facebook CDN URL
+				const retryContainer = await graphApi.createIgImageContainer(
+					ctx, userAccessToken, instagramAccountId, staged.cdnUrl, captions.instagram, graphApiVersion, locationId,
+					params.altText, params.userTags, params.collaborators,
+				);
+				igContainerId = trackIgContainer(params, retryContainer.id);
+			}
+		}
+
+		// Step 3: Publish IG post (retry – container may still be processing)
+		igPost = await publishOrScheduleIgContainer(ctx, userAccessToken, params, igContainerId, result);
+	}
+
+	if (publishesToFacebook(params)) {
+		await completePlatform(params, result, 'facebook', async () => {
+			// Step 4: Upload photo to Facebook (if not already done during conversion).
+			// Local conversion also normalises the format.
+			if (!fbPhotoId) {
+				const imagePath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, {
+					mediaUrl, binaryPropertyName: params.binaryPropertyName || undefined,
+				});
+				fbPhotoId = await uploadConvertedFbPhoto(
+					ctx, pageAccessToken, params, 'facebook', imagePath, 'photo',
+					{ altText: params.altText, temporary: !!params.publishAt },
+				);
+			} else {
+				// Instagram has fetched the staged photo; a failed feed post must remove it
+				params.artifacts.reassign(fbPhotoId, 'facebook');
+			}
+
+			// Step 5: Create Facebook feed post with attached photo
+			const fbFeedPost = await graphApi.createFbFeedPost(
+				ctx, pageAccessToken, facebookPageId, captions.facebook, fbPhotoId, graphApiVersion, locationId,
+				params.publishAt,
+			);
+			result.facebook_post_id = fbFeedPost.id;
+			result.facebook_photo_id = fbPhotoId;
+		});
+	}
+
+	// Step 6: Get IG permalink
+	if (igPost) await addIgPermalink(ctx, userAccessToken, params, result, igPost.id);
+
+	return withScheduleInfo(params, result);
+}
+
+// ── Video Flow ─────────────────────────────────────────────────────
+
+/**
+ * Parse a cover frame time given as seconds ("12.5") or a timestamp
+ * ("1:05", "0:01:05.5"). Empty means no cover frame.
+ */
+function parseCoverFrameTime(value: string): number | undefined {
+	const trimmed = value.trim();
+	if (!trimmed) return undefined;
+	const parts = trimmed.split(':');
+	if (parts.length <= 3 && parts.every((p) => /^\d+(\.\d+)?$/.test(p))) {
+		return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+	}
+	throw new Error(`Invalid Cover Frame Time "${value}". Use seconds (e.g. 12.5) or a timestamp (e.g. 1:05).`);
+}
+
+/**
+ * Length of the video as uploaded: the trimmed duration when it was cut.
+ */
+function processedDuration(report: VideoProcessingReport | undefined): number | undefined {
+	return report?.trim?.duration ?? report?.probe.durationSec;
+}
+
+/**
+ * Upload a converted video to the Page as a regular video or as a Reel,
+ * depending on the Facebook Video Format setting.
+ */
+async function uploadFacebookVideo(
+	ctx: IExecuteFunctions,
+	pageAccessToken: string,
+	params: MetaPostParams,
+	result: MetaPostResult,
+	videoPath: string,
+	caption: string,
+	thumbnail?: { buffer: Buffer; mimeType: string; filename: string },
+): Promise<{ id: string; post_id: string }> {
+	const { facebookPageId, graphApiVersion, locationId, publishAt } = params;
+
+	if (params.facebookVideoFormat === 'reel') {
+		const reel = await graphApi.uploadFbReel(
+			ctx, pageAccessToken, facebookPageId,
+			videoPath, caption, graphApiVersion, locationId, thumbnail, publishAt,
+			uploadOptions(ctx, params, result, 'facebook_reel'),
+		);
+		trackFbVideo(ctx, pageAccessToken, params, reel.id);
+		return { id: reel.id, post_id: reel.post_id || `${facebookPageId}_${reel.id}` };
+	}
+
+	const fbVideo = await graphApi.uploadFbVideoFromFile(
+		ctx, pageAccessToken, facebookPageId,
+		videoPath, 'video.mp4', caption, !publishAt, graphApiVersion, locationId, thumbnail, publishAt,
+		uploadOptions(ctx, params, result, 'facebook_video'),
+	);
+	trackFbVideo(ctx, pageAccessToken, params, fbVideo.id);
+	return { id: fbVideo.id, post_id: `${facebookPageId}_${fbVideo.id}` };
+}
+
+/**
+ * Reel-specific hint for Instagram rejecting the video's encoding.
+ */
+function describeReelError(error: unknown): unknown {
+	const msg = (error as Error).message || '';
+	if (msg.includes('2207089') || msg.toLowerCase().includes('carousel')) {
+		return new Error(
+			'Instagram rejected the video as a Reel. The video likely exceeds Instagram Reels ' +
+			'requirements (max 5 Mbps bitrate, H.264 High profile, max 90s duration). ' +
+			'Please re-encode the source video to a lower bitrate before posting. ' +
+			`(Original error: ${msg})`,
+		);
+	}
+	return error;
+}
+
+async function handleVideo(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	pageAccessToken: string,
+	params: MetaPostParams,
+	captions: PlatformCaptions,
+): Promise<MetaPostResult> {
+	const { instagramAccountId, graphApiVersion, locationId } = params;
+	const toInstagram = publishesToInstagram(params);
+	const toFacebook = publishesToFacebook(params);
+
+	let videoUrl = '';
+	let coverUrl: string | undefined;
+	let fbThumbnail: { buffer: Buffer; mimeType: string; filename: string } | undefined;
+	let videoPath: string;
+
+	if (params.inputSource === 'binary') {
+		// Step 1: Read the video (and optional cover) from the input item's binary data
+		videoPath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, {
+			mediaUrl: '', binaryPropertyName: params.binaryPropertyName,
+		});
+		if (params.coverBinaryPropertyName) {
+			const coverPath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, {
+				mediaUrl: '', binaryPropertyName: params.coverBinaryPropertyName,
+			});
+			const mime = binaryMimeType(ctx, params.itemIndex, params.coverBinaryPropertyName);
+			fbThumbnail = {
+				buffer: await fs.promises.readFile(coverPath),
+				mimeType: mime,
+				filename: `cover.${mime.split('/')[1] || 'jpg'}`,
+			};
+			if (toInstagram) {
+				// Instagram only takes the cover as a URL — stage it on Facebook's CDN
+				const staged = await stageImageOnFacebook(ctx, userAccessToken, pageAccessToken, params, coverPath, 'cover');
+				coverUrl = staged.cdnUrl;
+			}
+		}
+	} else {
+		// Parse media URL: if comma-separated, split into video + cover image
+		const urls = splitList(params.mediaUrl);
+		if (urls.length >= 2) {
+			const detected = await Promise.all(
+				urls.map(async (u) => ({ url: u, type: await detectItemMediaType(ctx, u) })),
+			);
+			const video = detected.find((d) => d.type === 'video');
+			const image = detected.find((d) => d.type === 'image');
+			if (!video) {
+				throw new Error('No video URL found. When providing two URLs for a video post, one must be a video.');
+			}
+			videoUrl = video.url;
+			coverUrl = image?.url;
+		} else {
+			videoUrl = urls[0];
+		}
+
+		// Step 1: Download video
+		videoPath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, { mediaUrl: videoUrl });
+
+		// Also download cover image (if provided) so we can use it as FB thumbnail
+		if (coverUrl && toFacebook) {
+			try {
+				const coverBuffer = await loadMedia(ctx, params.workspace, params.cache, params.itemIndex, { mediaUrl: coverUrl });
+				// Derive mime type from URL extension; default to JPEG
+				const url = new URL(coverUrl);
+				const lower = url.pathname.toLowerCase();
+				let mime = 'image/jpeg';
+				let fname = 'cover.jpg';
+				if (lower.endsWith('.png')) { mime = 'image/png'; fname = 'cover.png'; }
+				else if (lower.endsWith('.gif')) { mime = 'image/gif'; fname = 'cover.gif'; }
+				else if (lower.endsWith('.webp')) { mime = 'image/webp'; fname = 'cover.webp'; }
+				fbThumbnail = { buffer: coverBuffer, mimeType: mime, filename: fname };
+			} catch {
+				// Cover download failed — proceed without thumbnail
+			}
+		}
+	}
+
+	const result: MetaPostResult = { location_id: locationId };
+
+	// Convert video (skipped or remux-only when the source is already compliant)
+	const convertedPath = await processVideo(params, videoPath, result);
+
+	// Cover frame: IG picks the frame via thumb_offset, FB gets the same frame as thumb.
+	// An explicit cover image takes precedence.
+	let thumbOffsetMs: number | undefined;
+	if (params.coverFrameTime !== undefined && !coverUrl && !fbThumbnail) {
+		const duration = processedDuration(result.video_processing?.[0]);
+		if (duration !== undefined && params.coverFrameTime >= duration) {
+			throw new Error(
+				`Cover Frame Time ${params.coverFrameTime}s is past the end of the ${duration.toFixed(1)}s video`,
+			);
+		}
+		thumbOffsetMs = params.coverFrameTime * 1000;
+		if (toFacebook) {
+			fbThumbnail = {
+				buffer: await extractFrame(params.workspace, convertedPath, params.coverFrameTime),
+				mimeType: 'image/jpeg',
+				filename: 'cover.jpg',
+			};
+		}
+		result.cover_frame_time = params.coverFrameTime;
+	}
+
+	// Step 2: Upload converted video to Facebook (published) — runs in parallel with IG flow
+	const fbVideoPromise = toFacebook
+		? uploadFacebookVideo(ctx, pageAccessToken, params, result, convertedPath, captions.facebook, fbThumbnail)
+		: undefined;
+
+	// Step 3-6: IG flow. If it fails after the parallel FB video went up, the
+	// failure is reported next to the published video so Resume can retry Instagram.
+	let igPost: { id: string } | undefined;
+	let igError: unknown;
+	if (toInstagram) {
+		try {
+			// Step 3: Create IG Reel container via resumable upload (no public URL needed)
+			const igContainer = await graphApi.createIgReelContainerResumable(
+				ctx, userAccessToken, instagramAccountId,
+				captions.instagram, graphApiVersion, coverUrl, locationId, params.collaborators, thumbOffsetMs,
+			);
+			trackIgContainer(params, igContainer.id);
+
+			// Step 4: Stream the video file to Instagram's upload endpoint
+			await graphApi.uploadIgVideoBytes(
+				ctx, userAccessToken, igContainer.uri, convertedPath,
+				uploadOptions(ctx, params, result, 'instagram_reel'),
+			);
+
+			// Step 5: Poll IG container status
+			await pollIgContainer(ctx, userAccessToken, igContainer.id, graphApiVersion);
+
+			// Step 6: Publish IG Reel (retry – may briefly lag behind status poll)
+			igPost = await publishOrScheduleIgContainer(ctx, userAccessToken, params, igContainer.id, result);
+		} catch (error) {
+			igError = describeReelError(error);
+		}
+	}
+
+	// Step 7: Wait for FB upload to complete
+	if (fbVideoPromise) {
+		await completePlatform(params, result, 'facebook', async () => {
+			const fbVideo = await fbVideoPromise;
+			result.facebook_post_id = fbVideo.post_id;
+			result.facebook_video_id = fbVideo.id;
+
+			// Attach the caption track; the video is already up, so a failure is only a warning
+			if (params.subtitles?.mode === 'facebookTrack') {
+				const trimStart = result.video_processing?.[0]?.trim?.start ?? 0;
+				try {
+					await graphApi.uploadFbVideoCaptions(
+						ctx, pageAccessToken, fbVideo.id, toSrt(params.subtitles.parsed.cues, -trimStart),
+						params.subtitles.locale, graphApiVersion,
+					);
+					result.facebook_captions_locale = params.subtitles.locale;
+				} catch (error) {
+					(result.warnings ??= []).push(`Caption track was not attached: ${(error as Error).message}`);
+				}
+			}
+		}).catch((error) => {
+			// Both failed: the item fails with the Instagram error
+			throw igError ?? error;
+		});
+	}
+	if (igError) {
+		// Nothing published: the FB video (if any) is rolled back with the rest of the post
+		if (!isPublishedOn(result, 'facebook')) throw igError;
+		await failPlatform(params, result, 'instagram', igError);
+	}
+
+	// Step 8: Get IG permalink
+	if (igPost) await addIgPermalink(ctx, userAccessToken, params, result, igPost.id);
+
+	return withScheduleInfo(params, result);
+}
+
 // ── Carousel Flow ──────────────────────────────────────────────────
 
-async function handleCarousel(
+/**
+ * The first item's ratio clamped to Instagram's 4:5 to 1.91:1 range.
+ */
+async function resolveCarouselAspectRatio(
+	ctx: IExecuteFunctions,
+	params: MetaPostParams,
+): Promise<number> {
+	const firstPath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, params.carouselItems[0]);
+	const first = await probeMedia(firstPath, params.workspace.signal);
+	if (!first.video?.width || !first.video.height) {
+		throw new Error('Could not read the first carousel item\'s dimensions to resolve the aspect ratio');
+	}
+	const ratio = first.video.width / first.video.height;
+	return Math.min(Math.max(ratio, IG_MIN_ASPECT_RATIO), IG_MAX_ASPECT_RATIO);
+}
+
+async function handleCarousel(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	pageAccessToken: string,
+	params: MetaPostParams,
+	captions: PlatformCaptions,
+): Promise<MetaPostResult> {
+	const { instagramAccountId, facebookPageId, graphApiVersion, carouselItems, locationId } = params;
+
+	if (carouselItems.length < 2 || carouselItems.length > 10) {
+		throw new Error(`Carousel requires 2-10 items, got ${carouselItems.length}`);
+	}
+
+	const result: MetaPostResult = { location_id: locationId };
+
+	// Instagram crops every carousel item to the first item's ratio, so 'auto'
+	// resolves that ratio once and reframes all items to it
+	if (params.aspectRatio === 'auto') {
+		params.resolvedAspectRatio = await resolveCarouselAspectRatio(ctx, params);
+	}
+
+	// Keep the first converted video file so we can mirror it to FB when the
+	// carousel has no image items.
+	let firstVideoPath: string | undefined;
+	const stagedPhotoIds = new Map<CarouselItem, string>();
+	const videoItems = carouselItems.filter((item) => item.mediaType === 'video');
+	let igPost: { id: string } | undefined;
+
+	if (publishesToInstagram(params)) {
+		// Step 1: Create child containers, several items at a time. Video children
+		// are not polled one by one: their containers wait on one shared poller
+		// while the next items are already converting and uploading.
+		const poller = createIgStatusPoller(ctx, userAccessToken, graphApiVersion);
+		const processing: Promise<void>[] = [];
+		let childIds: string[];
+
+		try {
+			childIds = await mapWithConcurrency(carouselItems, params.carouselConcurrency, async (item, index) => {
+				if (item.mediaType === 'image') {
+					let imageUrl = item.mediaUrl;
+					if (item.binaryPropertyName || await convertsImageLocally(ctx, params, item)) {
+						// Binary items have no public URL and converted items differ from the
+						// source — stage on Facebook and reuse the unpublished photo for the
+						// FB mirror below.
+						const imagePath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, item);
+						const staged = await stageImageOnFacebook(
+							ctx, userAccessToken, pageAccessToken, params, imagePath, 'photo', item.altText,
+						);
+						stagedPhotoIds.set(item, staged.photoId);
+						imageUrl = staged.cdnUrl;
+					}
+					const child = await graphApi.createIgCarouselImageItemContainer(
+						ctx, userAccessToken, instagramAccountId,
+						imageUrl, graphApiVersion, item.altText, item.userTags,
+					);
+					return trackIgContainer(params, child.id);
+				}
+
+				// Video carousel item: convert locally if needed, upload bytes via resumable API
+				const videoIndex = videoItems.indexOf(item);
+				const videoPath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, item);
+				const convertedPath = await processVideo(params, videoPath, result, videoIndex);
+				if (videoIndex === 0) firstVideoPath = convertedPath;
+
+				const child = await graphApi.createIgCarouselVideoItemContainerResumable(
+					ctx, userAccessToken, instagramAccountId, graphApiVersion,
+				);
+				trackIgContainer(params, child.id);
+				await graphApi.uploadIgVideoBytes(
+					ctx, userAccessToken, child.uri, convertedPath,
+					uploadOptions(ctx, params, result, `instagram_carousel_item_${index + 1}`),
+				);
+				const ready = poller.wait(child.id);
+				// Failures surface when all containers are awaited below
+				ready.catch(() => undefined);
+				processing.push(ready);
+				return child.id;
+			});
+			await Promise.all(processing);
+		} finally {
+			poller.stop('Carousel upload was aborted');
+		}
+
+		// Step 2: Create parent carousel container
+		const carouselContainer = await graphApi.createIgCarouselContainer(
+			ctx, userAccessToken, instagramAccountId,
+			childIds, captions.instagram, graphApiVersion, locationId, params.collaborators,
+		);
+		trackIgContainer(params, carouselContainer.id);
+
+		// Step 3: Publish carousel
+		igPost = await publishOrScheduleIgContainer(ctx, userAccessToken, params, carouselContainer.id, result);
+	}
+
+	// Step 4: Mirror the carousel to Facebook.
+	// If any image items exist, attach all of them to a single multi-photo feed post.
+	// Otherwise (video-only carousel), publish the first video as a standalone FB video.
+	if (publishesToFacebook(params)) {
+		await completePlatform(params, result, 'facebook', async () => {
+			const imageItems = carouselItems.filter((item) => item.mediaType === 'image');
+			if (imageItems.length > 0) {
+				// Pre-download + convert each image so the FB upload sends the file itself
+				const photoIds = await Promise.all(
+					imageItems.map(async (item) => {
+						const stagedId = stagedPhotoIds.get(item);
+						if (stagedId) {
+							params.artifacts.reassign(stagedId, 'facebook');
+							return stagedId;
+						}
+						const imagePath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, item);
+						return uploadConvertedFbPhoto(
+							ctx, pageAccessToken, params, 'facebook', imagePath, 'photo',
+							{ altText: item.altText, temporary: !!params.publishAt },
+						);
+					}),
+				);
+				const fbFeedPost = await graphApi.createFbFeedPost(
+					ctx, pageAccessToken, facebookPageId, captions.facebook, photoIds, graphApiVersion, locationId,
+					params.publishAt,
+				);
+				result.facebook_post_id = fbFeedPost.id;
+			} else {
+				if (!firstVideoPath) {
+					// Facebook-only: the IG loop did not run, so convert the first video here
+					const videoPath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, carouselItems[0]);
+					firstVideoPath = await processVideo(params, videoPath, result);
+				}
+				const fbVideo = await uploadFacebookVideo(
+					ctx, pageAccessToken, params, result, firstVideoPath, captions.facebook,
+				);
+				result.facebook_post_id = fbVideo.post_id;
+				result.facebook_video_id = fbVideo.id;
+			}
+		});
+	}
+
+	// Step 5: Get IG permalink
+	if (igPost) await addIgPermalink(ctx, userAccessToken, params, result, igPost.id);
+
+	return withScheduleInfo(params, result);
+}
+
+// ── Story Flow ─────────────────────────────────────────────────────
+
+/**
+ * Whether a story image already has the 9:16 story ratio, so Instagram can
+ * fetch it by URL without reframing it to the story canvas first.
+ */
+async function fillsStoryCanvas(
+	ctx: IExecuteFunctions,
+	params: MetaPostParams,
+	source: { mediaUrl: string; binaryPropertyName?: string },
+): Promise<boolean> {
+	const imagePath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, source);
+	const { video } = await probeMedia(imagePath, params.workspace.signal);
+	if (!video?.width || !video.height) return false;
+	return Math.abs(video.width / video.height - STORY_CANVAS.width / STORY_CANVAS.height) < 0.01;
+}
+
+async function handleStory(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	pageAccessToken: string,
+	params: MetaPostParams,
+): Promise<MetaPostResult> {
+	const { instagramAccountId, facebookPageId, graphApiVersion, mediaUrl } = params;
+	const source = { mediaUrl, binaryPropertyName: params.binaryPropertyName || undefined };
+	const toInstagram = publishesToInstagram(params);
+	const toFacebook = publishesToFacebook(params);
+	const result: MetaPostResult = {};
+
+	if (params.storyMediaType === 'video') {
+		// Step 1: Load and convert the video to a 9:16 story frame
+		const videoPath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, source);
+		const convertedPath = await processVideo(params, videoPath, result);
+
+		// Step 2: Publish the Facebook Page story in parallel with the IG flow
+		const fbStoryPromise = toFacebook
+			? graphApi.uploadFbVideoStory(
+				ctx, pageAccessToken, facebookPageId, convertedPath, graphApiVersion,
+				uploadOptions(ctx, params, result, 'facebook_story'),
+			).then((story) => {
+				trackFbVideo(ctx, pageAccessToken, params, story.video_id);
+				return story;
+			})
+			: undefined;
+
+		// Step 3-5: IG resumable upload, status polling, publish
+		if (toInstagram) {
+			try {
+				const igContainer = await graphApi.createIgStoryVideoContainerResumable(
+					ctx, userAccessToken, instagramAccountId, graphApiVersion,
+				);
+				trackIgContainer(params, igContainer.id);
+				await graphApi.uploadIgVideoBytes(
+					ctx, userAccessToken, igContainer.uri, convertedPath,
+					uploadOptions(ctx, params, result, 'instagram_story'),
+				);
+				await pollIgContainer(ctx, userAccessToken, igContainer.id, graphApiVersion);
+				const igStory = await publishIgContainerWithRetry(
+					ctx, userAccessToken, instagramAccountId, igContainer.id, graphApiVersion,
+				);
+				result.instagram_story_id = igStory.id;
+			} catch (error) {
+				// Let the FB story settle: when it went up, report the IG failure next to it
+				const fbStory = await fbStoryPromise?.catch(() => undefined);
+				if (!fbStory) throw error;
+				result.facebook_story_id = fbStory.post_id;
+				result.facebook_video_id = fbStory.video_id;
+				await failPlatform(params, result, 'instagram', error);
+				return result;
+			}
+		}
+
+		if (fbStoryPromise) {
+			await completePlatform(params, result, 'facebook', async () => {
+				const fbStory = await fbStoryPromise;
+				result.facebook_story_id = fbStory.post_id;
+				result.facebook_video_id = fbStory.video_id;
+			});
+		}
+		return result;
+	}
+
+	let fbPhotoId: string | undefined;
+
+	if (toInstagram) {
+		let igContainerId: string;
+
+		// Step 1: Create the IG story container — original URL first when the image
+		// needs no reframing or watermark, otherwise (or on a format error) the
+		// converted 9:16 frame via the FB CDN, like binary story images
+		const containerResp = params.inputSource === 'url' && !params.watermark
+			&& await fillsStoryCanvas(ctx, params, source)
+			? await graphApi.tryCreateIgStoryImageContainer(
+				ctx, userAccessToken, instagramAccountId, mediaUrl, graphApiVersion,
+			)
+			: undefined;
+
+		if (containerResp && containerResp.statusCode >= 200 && containerResp.statusCode < 300 && containerResp.body?.id) {
+			igContainerId = trackIgContainer(params, containerResp.body.id);
+		} else {
+			if (containerResp && !isIgFormatError(containerResp)) {
+				throw new Error(graphApi.formatGraphError('Instagram Story container creation', containerResp));
+			}
+			const imagePath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, source);
+			const staged = await stageImageOnFacebook(ctx, userAccessToken, pageAccessToken, params, imagePath, 'story');
+			fbPhotoId = staged.photoId;
+
+			const retryResp = await graphApi.tryCreateIgStoryImageContainer(
+				ctx, userAccessToken, instagramAccountId, staged.cdnUrl, graphApiVersion,
+			);
+			if (retryResp.statusCode >= 400 || !retryResp.body?.id) {
+				throw new Error(graphApi.formatGraphError('Instagram Story container creation', retryResp));
+			}
+			igContainerId = trackIgContainer(params, retryResp.body.id);
+		}
+
+		// Step 2: Publish IG story
+		const igStory = await publishIgContainerWithRetry(
+			ctx, userAccessToken, instagramAccountId, igContainerId, graphApiVersion,
+		);
+		result.instagram_story_id = igStory.id;
+	}
+
+	// Step 3: Upload the 9:16 frame to Facebook (if not already staged) and post it as a Page story
+	if (toFacebook) {
+		await completePlatform(params, result, 'facebook', async () => {
+			if (!fbPhotoId) {
+				const imagePath = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, source);
+				fbPhotoId = await uploadConvertedFbPhoto(ctx, pageAccessToken, params, 'facebook', imagePath, 'story');
+			} else {
+				params.artifacts.reassign(fbPhotoId, 'facebook');
+			}
+			const fbStory = await graphApi.createFbPhotoStory(
+				ctx, pageAccessToken, facebookPageId, fbPhotoId, graphApiVersion,
+			);
+			result.facebook_story_id = fbStory.post_id;
+			result.facebook_photo_id = fbPhotoId;
+		});
+	}
+
+	return result;
+}
+
+// ── Validation ─────────────────────────────────────────────────────
+
+interface MediaToValidate {
+	mediaType: 'image' | 'video';
+	mediaUrl: string;
+	binaryPropertyName?: string;
+	isCover?: boolean;
+}
+
+/**
+ * List every media file a post would upload, resolved the same way the
+ * publish flows resolve them.
+ */
+async function collectMediaToValidate(
 	ctx: IExecuteFunctions,
-	userAccessToken: string,
-	pageAccessToken: string,
 	params: MetaPostParams,
-	caption: string,
-): Promise<MetaPostResult> {
-	const { instagramAccountId, facebookPageId, graphApiVersion, carouselItems, locationId } = params;
+): Promise<MediaToValidate[]> {
+	const binaryPropertyName = params.binaryPropertyName || undefined;
 
-	if (carouselItems.length < 2 || carouselItems.length > 10) {
-		throw new Error(`Carousel requires 2-10 items, got ${carouselItems.length}`);
+	if (params.mediaType === 'carousel') {
+		return params.carouselItems.map((item) => ({ ...item }));
+	}
+	if (params.mediaType === 'story') {
+		return [{ mediaType: params.storyMediaType ?? 'image', mediaUrl: params.mediaUrl, binaryPropertyName }];
+	}
+	if (params.mediaType === 'image') {
+		return [{ mediaType: 'image', mediaUrl: params.mediaUrl, binaryPropertyName }];
 	}
 
-	// Step 1: Create child containers for each item.
-	// Keep the first converted video buffer in memory so we can mirror it to FB
-	// when the carousel has no image items.
-	const childIds: string[] = [];
-	let firstVideoBuffer: Buffer | undefined;
-
-	for (const item of carouselItems) {
-		if (item.mediaType === 'image') {
-			const child = await graphApi.createIgCarouselImageItemContainer(
-				ctx, userAccessToken, instagramAccountId,
-				item.mediaUrl, graphApiVersion,
-			);
-			childIds.push(child.id);
-		} else {
-			// Video carousel item: re-encode locally, upload bytes via resumable API
-			const videoBuffer = await downloadMedia(ctx, item.mediaUrl);
-			const convertedBuffer = await convertVideo(videoBuffer, {
-				videoCodec: params.videoCodec,
-				crf: params.videoCrf,
-				preset: params.videoPreset,
-				fps: params.videoFps,
-				audioCodec: params.audioCodec,
-				audioBitrate: params.audioBitrate,
-				audioChannels: params.audioChannels,
-				audioSampleRate: params.audioSampleRate,
-				maxWidth: params.videoMaxWidth,
-				maxHeight: params.videoMaxHeight,
-				maxBitrate: params.videoMaxBitrate,
+	if (params.inputSource === 'binary') {
+		const media: MediaToValidate[] = [{ mediaType: 'video', mediaUrl: '', binaryPropertyName }];
+		if (params.coverBinaryPropertyName) {
+			media.push({
+				mediaType: 'image', mediaUrl: '', binaryPropertyName: params.coverBinaryPropertyName, isCover: true,
 			});
+		}
+		return media;
+	}
+	const urls = splitList(params.mediaUrl);
+	if (urls.length < 2) return [{ mediaType: 'video', mediaUrl: urls[0] ?? '' }];
+	const detected = await Promise.all(
+		urls.map(async (u) => ({ url: u, type: await detectItemMediaType(ctx, u) })),
+	);
+	const video = detected.find((d) => d.type === 'video');
+	const cover = detected.find((d) => d.type === 'image');
+	const media: MediaToValidate[] = [];
+	if (video) media.push({ mediaType: 'video', mediaUrl: video.url });
+	if (cover) media.push({ mediaType: 'image', mediaUrl: cover.url, isCover: true });
+	return media;
+}
 
-			const child = await graphApi.createIgCarouselVideoItemContainerResumable(
-				ctx, userAccessToken, instagramAccountId, graphApiVersion,
-			);
-			await graphApi.uploadIgVideoBytes(
-				ctx, userAccessToken, child.uri, convertedBuffer,
+/**
+ * Preflight a post without creating any containers or uploads: resolve the
+ * accounts and location, probe every media file and check it against the
+ * Instagram/Facebook rules. Returns errors and warnings per item.
+ */
+async function runValidation(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	itemIndex: number,
+	workspace: MediaWorkspace,
+	cache: MediaCache,
+): Promise<ValidationReport> {
+	const report: ValidationReport = { valid: false, errors: [], warnings: [], items: [] };
+
+	let params: MetaPostParams;
+	try {
+		params = await readParams(ctx, itemIndex, workspace, cache);
+	} catch (err) {
+		report.errors.push((err as Error).message);
+		return report;
+	}
+
+	try {
+		await resolveAccounts(ctx, userAccessToken, params);
+	} catch (err) {
+		report.errors.push((err as Error).message);
+	}
+
+	report.errors.push(...subtitleErrors(params));
+
+	if (params.mediaType !== 'story') {
+		const captions = prepareCaptions(params);
+		if (publishesToInstagram(params)) mergeIssues(report, validateInstagramCaption(captions.instagram));
+		if (publishesToFacebook(params)) mergeIssues(report, validateFacebookCaption(captions.facebook));
+	}
+	if (params.mediaType === 'carousel') {
+		mergeIssues(report, validateCarouselSize(params.carouselItems.length));
+	}
+
+	const media = await collectMediaToValidate(ctx, params);
+	if (media.length === 0 || (params.mediaType === 'video' && !media.some((m) => m.mediaType === 'video'))) {
+		report.errors.push('No video found to publish');
+	}
+
+	const convertOptions = videoConvertOptions(params);
+	for (const [index, entry] of media.entries()) {
+		const item: ItemValidation = {
+			index,
+			mediaType: entry.mediaType,
+			source: entry.binaryPropertyName ? `binary:${entry.binaryPropertyName}` : entry.mediaUrl,
+			errors: [],
+			warnings: [],
+		};
+		try {
+			const file = await loadMediaFile(ctx, workspace, cache, params.itemIndex, entry);
+			item.probe = await probeMedia(file, workspace.signal);
+			if (entry.mediaType === 'image') {
+				const checkAspect = publishesToInstagram(params) && !reframesMedia(params)
+					&& params.mediaType !== 'story' && !entry.isCover;
+				mergeIssues(item, validateImage(item.probe, checkAspect));
+			} else {
+				// Check the duration the trim will leave rather than the source's
+				const cut = resolveVideoCut(convertOptions.trim, item.probe.durationSec);
+				const trimmedProbe = cut && item.probe.durationSec !== undefined
+					? { ...item.probe, durationSec: cut.duration ?? item.probe.durationSec - cut.start }
+					: item.probe;
+				mergeIssues(item, validateVideo(trimmedProbe, videoPlacement(params), {
+					videoCodec: convertOptions.videoCodec,
+					audioCodec: convertOptions.audioCodec,
+					fps: convertOptions.fps,
+					maxBitrate: convertOptions.maxBitrate,
+				}));
+				const duration = trimmedProbe.durationSec;
+				if (params.coverFrameTime !== undefined && duration !== undefined && params.coverFrameTime >= duration) {
+					item.errors.push(
+						`Cover Frame Time ${params.coverFrameTime}s is past the end of the ${duration.toFixed(1)}s video`,
+					);
+				}
+			}
+		} catch (err) {
+			item.errors.push(`Could not load or probe media: ${(err as Error).message}`);
+		}
+		report.items.push(item);
+	}
+
+	report.valid = report.errors.length === 0 && report.items.every((item) => item.errors.length === 0);
+	return report;
+}
+
+// ── First Comment ──────────────────────────────────────────────────
+
+/**
+ * Post the first comment on every post that was published now. A failed
+ * comment never fails the item — the post is already live — so errors are
+ * collected as warnings on the result.
+ */
+async function postFirstComments(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	pageAccessToken: string,
+	params: MetaPostParams,
+	result: MetaPostResult,
+): Promise<void> {
+	const message = params.firstComment;
+	if (!message) return;
+	const warnings: string[] = [];
+
+	if (result.instagram_post_id) {
+		try {
+			const comment = await graphApi.createIgComment(
+				ctx, userAccessToken, result.instagram_post_id, message, params.graphApiVersion,
 			);
-			await pollIgContainer(ctx, userAccessToken, child.id, graphApiVersion);
-			childIds.push(child.id);
+			result.instagram_comment_id = comment.id;
+		} catch (err) {
+			warnings.push(`First comment on Instagram failed: ${(err as Error).message}`);
+		}
+	}
 
-			if (!firstVideoBuffer) firstVideoBuffer = convertedBuffer;
+	if (result.facebook_post_id) {
+		if (params.publishAt) {
+			warnings.push('First comment was not posted on Facebook because the post is scheduled');
+		} else {
+			try {
+				const comment = await graphApi.createFbComment(
+					ctx, pageAccessToken, result.facebook_post_id, message, params.graphApiVersion,
+				);
+				result.facebook_comment_id = comment.id;
+			} catch (err) {
+				warnings.push(`First comment on Facebook failed: ${(err as Error).message}`);
+			}
 		}
 	}
 
-	// Step 2: Create parent carousel container
-	const carouselContainer = await graphApi.createIgCarouselContainer(
-		ctx, userAccessToken, instagramAccountId,
-		childIds, caption, graphApiVersion, locationId,
-	);
+	if (warnings.length > 0) {
+		result.warnings = [...(result.warnings ?? []), ...warnings];
+	}
+}
 
-	// Step 3: Publish carousel
-	const igPost = await publishIgContainerWithRetry(
-		ctx, userAccessToken, instagramAccountId, carouselContainer.id, graphApiVersion,
+// ── Duplicate Protection ───────────────────────────────────────────
+
+/**
+ * Identify each media file: binary inputs by content hash (their binary IDs
+ * change between executions), URLs as given.
+ */
+async function mediaFingerprints(ctx: IExecuteFunctions, params: MetaPostParams): Promise<string[]> {
+	const sources = params.mediaType === 'carousel'
+		? params.carouselItems
+		: [{ mediaUrl: params.mediaUrl, binaryPropertyName: params.binaryPropertyName }];
+	return Promise.all(sources.map(async (source) => {
+		if (!source.binaryPropertyName) return source.mediaUrl;
+		const file = await loadMediaFile(ctx, params.workspace, params.cache, params.itemIndex, source);
+		return `sha256:${await hashFile(file)}`;
+	}));
+}
+
+/**
+ * Default idempotency key: the same media, captions, targets and schedule
+ * time give the same key, so a retried execution is recognised.
+ */
+async function defaultIdempotencyKey(
+	ctx: IExecuteFunctions,
+	params: MetaPostParams,
+	captions: PlatformCaptions,
+): Promise<string> {
+	return cacheKey(
+		'publish',
+		params.mediaType,
+		await mediaFingerprints(ctx, params),
+		params.mediaType === 'story' ? undefined : captions,
+		params.publishTo,
+		params.instagramAccountId,
+		params.facebookPageId,
+		params.publishAt,
 	);
+}
 
-	// Step 4: Mirror the carousel to Facebook.
-	// If any image items exist, attach all of them to a single multi-photo feed post.
-	// Otherwise (video-only carousel), publish the first video as a standalone FB video.
-	const imageItems = carouselItems.filter((item) => item.mediaType === 'image');
-	let fbPostId = '';
-	if (imageItems.length > 0) {
-		// Pre-download + convert each image so the FB upload uses a buffer.
-		// FB rejects /photos URL ingestion when the source exceeds 10 MB
-		// (subcode 1366046), even for URLs that work fine for Instagram.
-		const photoIds = await Promise.all(
-			imageItems.map(async (item) => {
-				const imageBuffer = await downloadMedia(ctx, item.mediaUrl);
-				const convertedBuffer = await convertImage(imageBuffer, {
-					maxWidth: params.imageMaxWidth,
-					maxHeight: params.imageMaxHeight,
-					outputFormat: params.imageOutputFormat,
-				});
-				const ext = params.imageOutputFormat;
-				const mime = ext === 'jpeg' ? 'image/jpeg' : 'image/png';
-				const fbPhoto = await graphApi.uploadFbPhotoFromBuffer(
-					ctx, pageAccessToken, facebookPageId,
-					convertedBuffer, `photo.${ext}`, mime, false, graphApiVersion,
-				);
-				return fbPhoto.id;
-			}),
+// ── Scheduling ─────────────────────────────────────────────────────
+
+const FB_SCHEDULE_MIN_SECONDS = 10 * 60;
+const FB_SCHEDULE_MAX_SECONDS = 75 * 24 * 60 * 60;
+// Unpublished IG containers expire 24h after creation
+const IG_CONTAINER_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Parse and validate "Publish At" before anything is uploaded. Facebook only
+ * accepts scheduled times 10 minutes to 75 days ahead; Instagram has no native
+ * scheduling, so the prepared container must still be alive at publish time.
+ */
+function parsePublishAt(value: string, params: MetaPostParams): number | undefined {
+	if (!value || !value.trim()) return undefined;
+
+	const ms = new Date(value).getTime();
+	if (Number.isNaN(ms)) {
+		throw new Error(`Publish At "${value}" is not a valid date/time`);
+	}
+	if (params.mediaType === 'story') {
+		throw new Error('Stories cannot be scheduled — leave Publish At empty to publish them now');
+	}
+
+	const publishAt = Math.floor(ms / 1000);
+	const ahead = publishAt - Math.floor(Date.now() / 1000);
+	if (publishesToFacebook(params) && (ahead < FB_SCHEDULE_MIN_SECONDS || ahead > FB_SCHEDULE_MAX_SECONDS)) {
+		throw new Error(
+			`Publish At ${new Date(ms).toISOString()} is outside Facebook's scheduling window ` +
+			'(at least 10 minutes and at most 75 days in the future)',
 		);
-		const fbFeedPost = await graphApi.createFbFeedPost(
-			ctx, pageAccessToken, facebookPageId, caption, photoIds, graphApiVersion, locationId,
+	}
+	if (publishesToInstagram(params)) {
+		if (ahead <= 0) {
+			throw new Error(`Publish At ${new Date(ms).toISOString()} is in the past`);
+		}
+		if (ahead > IG_CONTAINER_TTL_SECONDS) {
+			throw new Error(
+				`Publish At ${new Date(ms).toISOString()} is more than 24 hours ahead. Instagram containers ` +
+				'expire after 24 hours, so scheduled Instagram posts must be prepared within a day of their publish time.',
+			);
+		}
+	}
+	return publishAt;
+}
+
+/**
+ * Publish a prepared IG container now — or, for scheduled posts, make sure it
+ * finished processing and record a handle a later run publishes with the
+ * "Publish Scheduled Instagram Post" operation. Returns undefined when scheduled.
+ */
+async function publishOrScheduleIgContainer(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	params: MetaPostParams,
+	containerId: string,
+	result: MetaPostResult,
+): Promise<{ id: string } | undefined> {
+	const { instagramAccountId, graphApiVersion, publishAt } = params;
+
+	if (!publishAt) {
+		const igPost = await publishIgContainerWithRetry(
+			ctx, userAccessToken, instagramAccountId, containerId, graphApiVersion,
 		);
-		fbPostId = fbFeedPost.id;
-	} else if (firstVideoBuffer) {
-		const fbVideo = await graphApi.uploadFbVideoFromBuffer(
-			ctx, pageAccessToken, facebookPageId,
-			firstVideoBuffer, 'video.mp4', caption, true, graphApiVersion, locationId,
+		result.instagram_post_id = igPost.id;
+		return igPost;
+	}
+
+	const status = await graphApi.getIgContainerStatus(ctx, userAccessToken, containerId, graphApiVersion);
+	if (status.status_code === 'ERROR' || status.status_code === 'EXPIRED') {
+		throw new Error(
+			`Instagram container ${containerId} failed validation: ${status.status || status.status_code}`,
 		);
-		fbPostId = `${facebookPageId}_${fbVideo.id}`;
+	}
+	if (status.status_code !== 'FINISHED') {
+		await pollIgContainer(ctx, userAccessToken, containerId, graphApiVersion);
 	}
 
-	// Step 5: Get IG permalink
-	const igPermalink = await graphApi.getIgPermalink(
-		ctx, userAccessToken, igPost.id, graphApiVersion,
-	);
+	result.instagram_container_id = containerId;
+	result.instagram_schedule_handle = {
+		container_id: containerId,
+		instagram_account_id: instagramAccountId,
+		publish_at: publishAt,
+	};
+	if (params.firstComment) result.instagram_schedule_handle.first_comment = params.firstComment;
+	return undefined;
+}
 
+function withScheduleInfo(params: MetaPostParams, result: MetaPostResult): MetaPostResult {
+	if (!params.publishAt) return result;
 	return {
+		...result,
+		scheduled: true,
+		scheduled_publish_time: new Date(params.publishAt * 1000).toISOString(),
+	};
+}
+
+function parseScheduleHandle(value: unknown): IgScheduleHandle {
+	let handle = value;
+	if (typeof handle === 'string') {
+		try {
+			handle = JSON.parse(handle);
+		} catch {
+			throw new Error('Schedule Handle must be the instagram_schedule_handle object returned by a scheduled post');
+		}
+	}
+	const h = handle as Partial<IgScheduleHandle> | null;
+	if (!h || !h.container_id || !h.instagram_account_id || !h.publish_at) {
+		throw new Error(
+			'Schedule Handle is missing container_id, instagram_account_id or publish_at. ' +
+			'Pass the instagram_schedule_handle object returned by a scheduled post.',
+		);
+	}
+	return h as IgScheduleHandle;
+}
+
+/**
+ * Publish an IG container prepared by an earlier scheduled run.
+ */
+async function publishScheduledInstagram(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	handle: IgScheduleHandle,
+	apiVersion: string,
+): Promise<MetaPostResult> {
+	const publishAtIso = new Date(handle.publish_at * 1000).toISOString();
+	// Allow a minute of clock skew between the scheduling trigger and Meta
+	if (Date.now() < handle.publish_at * 1000 - 60_000) {
+		throw new Error(`Scheduled Instagram post is not due until ${publishAtIso}`);
+	}
+
+	const status = await graphApi.getIgContainerStatus(
+		ctx, userAccessToken, handle.container_id, apiVersion,
+	);
+	if (status.status_code === 'EXPIRED') {
+		throw new Error(
+			`Instagram container ${handle.container_id} expired before it was published ` +
+			'(containers expire 24 hours after creation). Schedule the post again.',
+		);
+	}
+	if (status.status_code === 'PUBLISHED') {
+		throw new Error(`Instagram container ${handle.container_id} has already been published`);
+	}
+	if (status.status_code === 'ERROR') {
+		throw new Error(
+			`Instagram container ${handle.container_id} is in an error state: ${status.status || status.status_code}`,
+		);
+	}
+
+	const igPost = await publishIgContainerWithRetry(
+		ctx, userAccessToken, handle.instagram_account_id, handle.container_id, apiVersion,
+	);
+	const igPermalink = await graphApi.getIgPermalink(ctx, userAccessToken, igPost.id, apiVersion);
+
+	const result: MetaPostResult = {
 		instagram_post_id: igPost.id,
 		instagram_permalink: igPermalink.permalink,
-		facebook_post_id: fbPostId,
-		location_id: locationId,
+		instagram_container_id: handle.container_id,
+		scheduled_publish_time: publishAtIso,
 	};
+	if (handle.first_comment) {
+		try {
+			const comment = await graphApi.createIgComment(
+				ctx, userAccessToken, igPost.id, handle.first_comment, apiVersion,
+			);
+			result.instagram_comment_id = comment.id;
+		} catch (err) {
+			result.warnings = [`First comment on Instagram failed: ${(err as Error).message}`];
+		}
+	}
+	return result;
 }
 
 // ── Node Definition ────────────────────────────────────────────────
@@ -602,7 +2168,7 @@ export class MetaPost implements INodeType {
 		icon: 'file:metaPost.svg',
 		group: ['output'],
 		version: 1,
-		subtitle: '={{$parameter["mediaType"] === "image" ? "Post Image" : $parameter["mediaType"] === "video" ? "Post Video" : "Post Carousel"}}',
+		subtitle: '={{$parameter["operation"] === "publishScheduled" ? "Publish Scheduled" : $parameter["mediaType"] === "image" ? "Post Image" : $parameter["mediaType"] === "video" ? "Post Video" : $parameter["mediaType"] === "story" ? "Post Story" : "Post Carousel"}}',
 		description: 'Post images and videos to Facebook Pages and Instagram',
 		defaults: {
 			name: 'Meta Post',
@@ -611,53 +2177,547 @@ export class MetaPost implements INodeType {
 		outputs: ['main'],
 		credentials: [
 			{
-				name: 'facebookGraphApi',
-				required: true,
+				name: 'facebookGraphApi',
+				required: true,
+			},
+		],
+		properties: [
+			// ── Core Parameters ──
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{ name: 'Post', value: 'post', description: 'Publish or schedule a post' },
+					{
+						name: 'Publish Scheduled Instagram Post',
+						value: 'publishScheduled',
+						description: 'Publish an Instagram container prepared by an earlier scheduled post',
+					},
+				],
+				default: 'post',
+			},
+			{
+				displayName: 'Schedule Handle',
+				name: 'scheduleHandle',
+				type: 'json',
+				default: '',
+				required: true,
+				displayOptions: { show: { operation: ['publishScheduled'] } },
+				description: 'The instagram_schedule_handle object returned by a scheduled post, e.g. {{ $json.instagram_schedule_handle }}',
+			},
+			{
+				displayName: 'Media Type',
+				name: 'mediaType',
+				type: 'options',
+				options: [
+					{ name: 'Image', value: 'image' },
+					{ name: 'Video', value: 'video' },
+					{ name: 'Carousel', value: 'carousel' },
+					{ name: 'Story', value: 'story' },
+				],
+				default: 'image',
+				displayOptions: { show: { operation: ['post'] } },
+				description: 'Type of media to post',
+			},
+			{
+				displayName: 'Carousel Input',
+				name: 'carouselInputMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Comma-Separated List',
+						value: 'list',
+						description: 'All items from one URL or binary property list; types are auto-detected',
+					},
+					{
+						name: 'Item Editor',
+						value: 'items',
+						description: 'Define each item with its own source, type, alt text and user tags',
+					},
+				],
+				default: 'list',
+				displayOptions: { show: { operation: ['post'], mediaType: ['carousel'] } },
+			},
+			{
+				displayName: 'Carousel Items',
+				name: 'carouselItems',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true, sortable: true },
+				placeholder: 'Add Item',
+				default: {},
+				displayOptions: { show: { operation: ['post'], mediaType: ['carousel'], carouselInputMode: ['items'] } },
+				description: 'Carousel items in display order (2-10)',
+				options: [
+					{
+						displayName: 'Item',
+						name: 'item',
+						values: [
+							{
+								displayName: 'Source',
+								name: 'source',
+								type: 'options',
+								options: [
+									{ name: 'URL', value: 'url' },
+									{ name: 'Binary Property', value: 'binary' },
+								],
+								default: 'url',
+							},
+							{
+								displayName: 'URL',
+								name: 'url',
+								type: 'string',
+								default: '',
+								displayOptions: { show: { source: ['url'] } },
+								description: 'Publicly accessible URL of the image or video',
+							},
+							{
+								displayName: 'Binary Property',
+								name: 'binaryPropertyName',
+								type: 'string',
+								default: 'data',
+								displayOptions: { show: { source: ['binary'] } },
+								description: 'Name of the binary property holding the image or video',
+							},
+							{
+								displayName: 'Type',
+								name: 'mediaType',
+								type: 'options',
+								options: [
+									{ name: 'Auto-Detect', value: 'auto' },
+									{ name: 'Image', value: 'image' },
+									{ name: 'Video', value: 'video' },
+								],
+								default: 'auto',
+								description: 'Item type. Auto-detect uses the file extension, HEAD Content-Type or binary MIME type — set it explicitly for extensionless or signed URLs.',
+							},
+							{
+								displayName: 'Alt Text',
+								name: 'altText',
+								type: 'string',
+								default: '',
+								description: 'Accessibility description for image items',
+							},
+							{
+								displayName: 'User Tags',
+								name: 'userTags',
+								type: 'string',
+								typeOptions: { rows: 2 },
+								default: '',
+								description: 'Instagram accounts to tag on image items, one per line as "username x y" (x/y from 0 to 1, measured from the top left)',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Input Source',
+				name: 'inputSource',
+				type: 'options',
+				options: [
+					{ name: 'URL', value: 'url' },
+					{ name: 'Binary Property', value: 'binary' },
+				],
+				default: 'url',
+				displayOptions: { show: { operation: ['post'] }, hide: { carouselInputMode: ['items'] } },
+				description: 'Where to read the media from',
+			},
+			{
+				displayName: 'Media URL',
+				name: 'mediaUrl',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: { show: { operation: ['post'], inputSource: ['url'] }, hide: { carouselInputMode: ['items'] } },
+				description: 'Publicly accessible URL. For carousel: comma-separated URLs (2-10). Video URLs are auto-detected by extension (.mp4, .mov, .avi, .webm).',
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: { show: { operation: ['post'], inputSource: ['binary'] }, hide: { carouselInputMode: ['items'] } },
+				description: 'Name of the binary property holding the media. For carousel: comma-separated property names (2-10). Item types are detected from the MIME type.',
+			},
+			{
+				displayName: 'Cover Binary Property',
+				name: 'coverBinaryPropertyName',
+				type: 'string',
+				default: '',
+				displayOptions: { show: { operation: ['post'], inputSource: ['binary'], mediaType: ['video'] } },
+				description: 'Optional binary property holding a cover image. Used as the Instagram Reel cover and the Facebook video thumbnail.',
+			},
+			{
+				displayName: 'Cover Frame Time',
+				name: 'coverFrameTime',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. 12.5 or 0:12.5',
+				displayOptions: { show: { operation: ['post'], mediaType: ['video'] } },
+				description: 'Optional time in the video (seconds or m:ss, after trimming) to use as the cover. Instagram gets it as the Reel thumb offset and the frame is extracted and uploaded as the Facebook thumbnail. Ignored when a cover image is provided.',
+			},
+			{
+				displayName: 'Caption',
+				name: 'caption',
+				type: 'string',
+				typeOptions: { rows: 4 },
+				default: '',
+				displayOptions: { show: { operation: ['post'] }, hide: { mediaType: ['story'] } },
+				description: 'Post caption text',
+			},
+			{
+				displayName: 'Hash Suffix',
+				name: 'hashSuffix',
+				type: 'string',
+				default: '',
+				displayOptions: { show: { operation: ['post'] }, hide: { mediaType: ['story'] } },
+				description: 'Optional hashtag suffix appended to caption',
+			},
+			{
+				displayName: 'Platform Captions',
+				name: 'platformCaptions',
+				type: 'collection',
+				placeholder: 'Add Override',
+				default: {},
+				displayOptions: { show: { operation: ['post'] }, hide: { mediaType: ['story'] } },
+				description: 'Optional per-platform caption and hash suffix. Anything not set here falls back to Caption and Hash Suffix above.',
+				options: [
+					{
+						displayName: 'Facebook Caption',
+						name: 'facebookCaption',
+						type: 'string',
+						typeOptions: { rows: 4 },
+						default: '',
+						description: 'Caption used on Facebook instead of the shared caption (e.g. with clickable links)',
+					},
+					{
+						displayName: 'Facebook Hash Suffix',
+						name: 'facebookHashSuffix',
+						type: 'string',
+						default: '',
+						description: 'Hashtag suffix appended to the Facebook caption instead of the shared one',
+					},
+					{
+						displayName: 'Instagram Caption',
+						name: 'instagramCaption',
+						type: 'string',
+						typeOptions: { rows: 4 },
+						default: '',
+						description: 'Caption used on Instagram instead of the shared caption',
+					},
+					{
+						displayName: 'Instagram Hash Suffix',
+						name: 'instagramHashSuffix',
+						type: 'string',
+						default: '',
+						description: 'Hashtag suffix appended to the Instagram caption instead of the shared one',
+					},
+				],
+			},
+			{
+				displayName: 'Alt Text',
+				name: 'altText',
+				type: 'string',
+				typeOptions: { rows: 2 },
+				default: '',
+				displayOptions: { show: { operation: ['post'], mediaType: ['image', 'carousel'] }, hide: { carouselInputMode: ['items'] } },
+				description: 'Accessibility description of the image, sent as alt_text to Instagram and alt_text_custom to Facebook. For carousel: one line per item, in item order (leave a line empty to skip an item; video items ignore it).',
 			},
-		],
-		properties: [
-			// ── Core Parameters ──
 			{
-				displayName: 'Media Type',
-				name: 'mediaType',
+				displayName: 'User Tags',
+				name: 'userTags',
+				type: 'string',
+				typeOptions: { rows: 2 },
+				default: '',
+				displayOptions: { show: { operation: ['post'], mediaType: ['image'], publishTo: ['both', 'instagram'] } },
+				description: 'Instagram accounts to tag on the image, one per line as "username x y" (x/y from 0 to 1, measured from the top left). Max 20.',
+			},
+			{
+				displayName: 'Collaborators',
+				name: 'collaborators',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: { operation: ['post'], mediaType: ['image', 'video', 'carousel'], publishTo: ['both', 'instagram'] },
+				},
+				description: 'Comma-separated Instagram usernames to invite as collaborators (max 3). They must accept the invite before the post shows on their profile.',
+			},
+			{
+				displayName: 'First Comment',
+				name: 'firstComment',
+				type: 'string',
+				typeOptions: { rows: 2 },
+				default: '',
+				displayOptions: { show: { operation: ['post'] }, hide: { mediaType: ['story'] } },
+				description: 'Optional comment posted on the Instagram and Facebook post right after publishing (e.g. hashtags or links). A failed comment is reported under warnings and does not fail the post.',
+			},
+			{
+				displayName: 'Location',
+				name: 'location',
+				type: 'string',
+				default: '',
+				displayOptions: { show: { operation: ['post'] }, hide: { mediaType: ['story'] } },
+				description: 'Optional location to tag the post with. Accepts a free-form query (city name, postal code, landmark, e.g. "Berlin", "10115", "Brandenburger Tor") which is resolved via Facebook\'s page search, or a Facebook Place Page ID (10+ digits) to use directly. Applied as location_id on Instagram and place on Facebook.',
+			},
+			{
+				displayName: 'Aspect Ratio',
+				name: 'aspectRatio',
 				type: 'options',
 				options: [
-					{ name: 'Image', value: 'image' },
-					{ name: 'Video', value: 'video' },
-					{ name: 'Carousel', value: 'carousel' },
+					{ name: 'Original', value: 'original', description: 'Keep the source aspect ratio' },
+					{ name: 'Auto (Nearest Allowed)', value: 'auto', description: 'Keep the source ratio when Instagram allows it (4:5 to 1.91:1), otherwise reframe to the nearest limit. Carousels use the first item\'s ratio for all items. Reels keep their own ratio.' },
+					{ name: '9:16 (Vertical)', value: '9:16' },
+					{ name: '4:5 (Portrait)', value: '4:5' },
+					{ name: '1:1 (Square)', value: '1:1' },
+					{ name: '1.91:1 (Landscape)', value: '1.91:1' },
 				],
-				default: 'image',
-				description: 'Type of media to post',
+				default: 'original',
+				displayOptions: { show: { operation: ['post'] }, hide: { mediaType: ['story'] } },
+				description: 'Target aspect ratio for images and videos. Reframed images are converted locally and staged on Facebook, so Instagram-only posts need a staging page.',
 			},
 			{
-				displayName: 'Media URL',
-				name: 'mediaUrl',
+				displayName: 'Fit Mode',
+				name: 'fitMode',
+				type: 'options',
+				options: [
+					{ name: 'Pad (Letterbox)', value: 'pad', description: 'Scale to fit and fill the rest with a solid color' },
+					{ name: 'Crop (Center)', value: 'crop', description: 'Scale to fill and cut off the edges around the center' },
+					{ name: 'Crop (Smart)', value: 'smart', description: 'Scale to fill and keep the most detailed part of the frame' },
+					{ name: 'Blur Fill', value: 'blur', description: 'Scale to fit over a blurred, zoomed copy of the media' },
+				],
+				default: 'pad',
+				displayOptions: { show: { operation: ['post'] } },
+				description: 'How media is fitted into the target aspect ratio (and the 9:16 frame for stories)',
+			},
+			{
+				displayName: 'Pad Color',
+				name: 'padColor',
+				type: 'string',
+				default: 'black',
+				displayOptions: { show: { operation: ['post'], fitMode: ['pad'] } },
+				description: 'Letterbox color, as an ffmpeg color name or hex value (e.g. "white", "#1a1a1a")',
+			},
+			{
+				displayName: 'Subtitles',
+				name: 'subtitleSource',
+				type: 'options',
+				options: [
+					{ name: 'None', value: 'none' },
+					{ name: 'URL', value: 'url' },
+					{ name: 'Binary Data', value: 'binary' },
+				],
+				default: 'none',
+				displayOptions: { show: { operation: ['post'], mediaType: ['video'] } },
+				description: 'Optional SRT or WebVTT subtitle file. The file is validated before publishing and invalid cues are reported by cue number and line.',
+			},
+			{
+				displayName: 'Subtitle URL',
+				name: 'subtitleUrl',
 				type: 'string',
 				default: '',
 				required: true,
-				description: 'Publicly accessible URL. For carousel: comma-separated URLs (2-10). Video URLs are auto-detected by extension (.mp4, .mov, .avi, .webm).',
+				displayOptions: { show: { operation: ['post'], mediaType: ['video'], subtitleSource: ['url'] } },
 			},
 			{
-				displayName: 'Caption',
-				name: 'caption',
+				displayName: 'Subtitle Binary Property',
+				name: 'subtitleBinaryPropertyName',
 				type: 'string',
-				typeOptions: { rows: 4 },
-				default: '',
-				description: 'Post caption text',
+				default: 'subtitles',
+				required: true,
+				displayOptions: { show: { operation: ['post'], mediaType: ['video'], subtitleSource: ['binary'] } },
+				description: 'Name of the binary property holding the subtitle file',
 			},
 			{
-				displayName: 'Hash Suffix',
-				name: 'hashSuffix',
+				displayName: 'Subtitle Mode',
+				name: 'subtitleMode',
+				type: 'options',
+				options: [
+					{ name: 'Burn In', value: 'burn', description: 'Render the subtitles into the video for both platforms' },
+					{ name: 'Facebook Caption Track', value: 'facebookTrack', description: 'Attach the subtitles to the Facebook video as a toggleable caption track. Instagram gets no subtitles.' },
+				],
+				default: 'burn',
+				displayOptions: { show: { operation: ['post'], mediaType: ['video'], subtitleSource: ['url', 'binary'] } },
+			},
+			{
+				displayName: 'Subtitle Options',
+				name: 'subtitleOptions',
+				type: 'collection',
+				placeholder: 'Add Setting',
+				default: {},
+				displayOptions: { show: { operation: ['post'], mediaType: ['video'], subtitleSource: ['url', 'binary'] } },
+				options: [
+					{
+						displayName: 'Font Size',
+						name: 'fontSize',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: 18,
+						description: 'Burn-in font size, relative to a 288px tall frame (scaled with the video)',
+					},
+					{
+						displayName: 'Color',
+						name: 'color',
+						type: 'color',
+						default: '#FFFFFF',
+						description: 'Burn-in text color',
+					},
+					{
+						displayName: 'Position',
+						name: 'position',
+						type: 'options',
+						options: [
+							{ name: 'Bottom', value: 'bottom' },
+							{ name: 'Middle', value: 'middle' },
+							{ name: 'Top', value: 'top' },
+						],
+						default: 'bottom',
+						description: 'Burn-in vertical position',
+					},
+					{
+						displayName: 'Caption Locale',
+						name: 'locale',
+						type: 'string',
+						default: 'en_US',
+						description: 'Language of the Facebook caption track, e.g. en_US or de_DE',
+					},
+				],
+			},
+			{
+				displayName: 'Audio Track',
+				name: 'audioTrackSource',
+				type: 'options',
+				options: [
+					{ name: 'None', value: 'none' },
+					{ name: 'URL', value: 'url' },
+					{ name: 'Binary Data', value: 'binary' },
+				],
+				default: 'none',
+				displayOptions: { show: { operation: ['post'], mediaType: ['video', 'story'] } },
+				description: 'Optional audio file (e.g. music) mixed under or replacing the video\'s audio. Set the mode and volume under Audio Settings.',
+			},
+			{
+				displayName: 'Audio Track URL',
+				name: 'audioTrackUrl',
 				type: 'string',
 				default: '',
-				description: 'Optional hashtag suffix appended to caption',
+				required: true,
+				displayOptions: { show: { operation: ['post'], mediaType: ['video', 'story'], audioTrackSource: ['url'] } },
 			},
 			{
-				displayName: 'Location',
-				name: 'location',
+				displayName: 'Audio Track Binary Property',
+				name: 'audioTrackBinaryPropertyName',
+				type: 'string',
+				default: 'audio',
+				required: true,
+				displayOptions: { show: { operation: ['post'], mediaType: ['video', 'story'], audioTrackSource: ['binary'] } },
+				description: 'Name of the binary property holding the audio file',
+			},
+			{
+				displayName: 'Watermark',
+				name: 'watermarkSource',
+				type: 'options',
+				options: [
+					{ name: 'None', value: 'none' },
+					{ name: 'URL', value: 'url' },
+					{ name: 'Binary Data', value: 'binary' },
+				],
+				default: 'none',
+				displayOptions: { show: { operation: ['post'] } },
+				description: 'Optional logo burned into every image and video, including carousel items, stories and the Facebook mirror. Images with a watermark are converted locally and staged on Facebook, so Instagram-only posts need a staging page.',
+			},
+			{
+				displayName: 'Watermark URL',
+				name: 'watermarkUrl',
 				type: 'string',
 				default: '',
-				description: 'Optional location to tag the post with. Accepts a free-form query (city name, postal code, landmark, e.g. "Berlin", "10115", "Brandenburger Tor") which is resolved via Facebook\'s page search, or a Facebook Place Page ID (10+ digits) to use directly. Applied as location_id on Instagram and place on Facebook.',
+				required: true,
+				displayOptions: { show: { operation: ['post'], watermarkSource: ['url'] } },
+				description: 'Public URL of the logo image (PNG with transparency works best)',
+			},
+			{
+				displayName: 'Watermark Binary Property',
+				name: 'watermarkBinaryPropertyName',
+				type: 'string',
+				default: 'watermark',
+				required: true,
+				displayOptions: { show: { operation: ['post'], watermarkSource: ['binary'] } },
+				description: 'Name of the binary property holding the logo image',
+			},
+			{
+				displayName: 'Watermark Options',
+				name: 'watermarkOptions',
+				type: 'collection',
+				placeholder: 'Add Setting',
+				default: {},
+				displayOptions: { show: { operation: ['post'], watermarkSource: ['url', 'binary'] } },
+				options: [
+					{
+						displayName: 'Position',
+						name: 'position',
+						type: 'options',
+						options: [
+							{ name: 'Top Left', value: 'top-left' },
+							{ name: 'Top Right', value: 'top-right' },
+							{ name: 'Bottom Left', value: 'bottom-left' },
+							{ name: 'Bottom Right', value: 'bottom-right' },
+							{ name: 'Center', value: 'center' },
+						],
+						default: 'bottom-right',
+					},
+					{
+						displayName: 'Scale (% of Width)',
+						name: 'scale',
+						type: 'number',
+						typeOptions: { minValue: 1, maxValue: 100 },
+						default: 15,
+						description: 'Logo width as a percentage of the output frame width',
+					},
+					{
+						displayName: 'Margin (% of Width)',
+						name: 'margin',
+						type: 'number',
+						typeOptions: { minValue: 0, maxValue: 50, numberPrecision: 1 },
+						default: 3,
+						description: 'Distance from the frame edges as a percentage of the output frame width',
+					},
+					{
+						displayName: 'Opacity',
+						name: 'opacity',
+						type: 'number',
+						typeOptions: { minValue: 0, maxValue: 1, numberPrecision: 2 },
+						default: 0.8,
+						description: 'Logo opacity from 0 (invisible) to 1 (opaque)',
+					},
+				],
+			},
+			{
+				displayName: 'Publish To',
+				name: 'publishTo',
+				type: 'options',
+				options: [
+					{ name: 'Instagram and Facebook', value: 'both' },
+					{ name: 'Instagram Only', value: 'instagram' },
+					{ name: 'Facebook Only', value: 'facebook' },
+				],
+				default: 'both',
+				displayOptions: { show: { operation: ['post'] } },
+				description: 'Which networks to publish the post to',
+			},
+			{
+				displayName: 'Facebook Video Format',
+				name: 'facebookVideoFormat',
+				type: 'options',
+				options: [
+					{ name: 'Page Video', value: 'video' },
+					{ name: 'Reel', value: 'reel' },
+				],
+				default: 'video',
+				displayOptions: {
+					show: { operation: ['post'], mediaType: ['video', 'carousel'], publishTo: ['both', 'facebook'] },
+				},
+				description: 'Publish videos on Facebook as a regular Page video or as a Facebook Reel. For carousels this applies when all items are videos (the first video is mirrored to Facebook).',
 			},
 			{
 				displayName: 'Instagram Account ID',
@@ -665,6 +2725,7 @@ export class MetaPost implements INodeType {
 				type: 'string',
 				default: '',
 				required: true,
+				displayOptions: { show: { operation: ['post'], publishTo: ['both', 'instagram'] } },
 				description: 'Instagram Business Account ID',
 			},
 			{
@@ -673,8 +2734,82 @@ export class MetaPost implements INodeType {
 				type: 'string',
 				default: '',
 				required: true,
+				displayOptions: { show: { operation: ['post'], publishTo: ['both', 'facebook'] } },
 				description: 'Facebook Page ID',
 			},
+			{
+				displayName: 'Staging Facebook Page ID',
+				name: 'facebookPageId',
+				type: 'string',
+				default: '',
+				displayOptions: { show: { operation: ['post'], publishTo: ['instagram'] } },
+				description: 'Optional Facebook Page used only to host images Instagram cannot fetch directly (binary input, or formats like WebP). Photos are uploaded unpublished and never appear on the Page.',
+			},
+			{
+				displayName: 'Publish At',
+				name: 'publishAt',
+				type: 'dateTime',
+				default: '',
+				displayOptions: { show: { operation: ['post'] }, hide: { mediaType: ['story'] } },
+				description: 'Optional time to publish the post instead of now. Facebook schedules natively (10 minutes to 75 days ahead). For Instagram the container is prepared and validated now and an instagram_schedule_handle is returned — publish it at this time with the "Publish Scheduled Instagram Post" operation (must be within 24 hours).',
+			},
+			{
+				displayName: 'Validate Only',
+				name: 'validateOnly',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { operation: ['post'] } },
+				description: 'Whether to only run a preflight check instead of publishing. Resolves the page token, location and media types, probes every media file and checks caption, hashtag, mention, carousel, aspect ratio and video rules — no containers or uploads are created. Returns errors and warnings per item.',
+			},
+			{
+				displayName: 'Prevent Duplicate Posts',
+				name: 'preventDuplicates',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { operation: ['post'], validateOnly: [false] } },
+				description: 'Whether to remember each published post in the workflow\'s static data and, when the same post comes in again (e.g. an execution retried after a timeout), return the earlier result with duplicate: true instead of publishing twice. Only production executions are remembered, not manual test runs.',
+			},
+			{
+				displayName: 'Idempotency Key',
+				name: 'idempotencyKey',
+				type: 'string',
+				default: '',
+				displayOptions: { show: { operation: ['post'], validateOnly: [false], preventDuplicates: [true] } },
+				description: 'Identifies the post for duplicate detection. Leave empty to use a hash of the media, captions, targets and schedule time.',
+			},
+			{
+				displayName: 'Force Publish',
+				name: 'forcePublish',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { operation: ['post'], validateOnly: [false], preventDuplicates: [true] } },
+				description: 'Whether to publish even when a post with the same key was already published. The new result replaces the remembered one.',
+			},
+			{
+				displayName: 'Resume',
+				name: 'resume',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { operation: ['post'], validateOnly: [false] } },
+				description: 'Whether to complete an earlier post that was published on only one platform. Platforms the previous result already published (platform_status "published") are skipped and their IDs are kept in the output. Use the same media and captions as the earlier run.',
+			},
+			{
+				displayName: 'Previous Result',
+				name: 'previousResult',
+				type: 'json',
+				default: '',
+				required: true,
+				displayOptions: { show: { operation: ['post'], validateOnly: [false], resume: [true] } },
+				description: 'The JSON output of the earlier post, e.g. {{ $json }}',
+			},
+			{
+				displayName: 'Keep Artifacts on Failure',
+				name: 'keepFailedArtifacts',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { operation: ['post'], validateOnly: [false] } },
+				description: 'Whether to leave the unpublished photos, uploaded videos and Instagram containers of a failed post in place for debugging instead of deleting them. Either way they are listed under cleaned_up.',
+			},
 			{
 				displayName: 'Graph API Version',
 				name: 'graphApiVersion',
@@ -690,8 +2825,8 @@ export class MetaPost implements INodeType {
 				type: 'collection',
 				placeholder: 'Add Setting',
 				default: {},
-				displayOptions: { show: { mediaType: ['image'] } },
-				description: 'Settings for image conversion (used as fallback when Instagram rejects the format)',
+				displayOptions: { show: { operation: ['post'], mediaType: ['image', 'carousel', 'story'] } },
+				description: 'Settings for image conversion (used when reframing or watermarking, for binary input, and as fallback when Instagram rejects the format). Stories always fill a 1080x1920 frame.',
 				options: [
 					{
 						displayName: 'Max Width',
@@ -721,6 +2856,115 @@ export class MetaPost implements INodeType {
 				],
 			},
 
+			// ── Video Trim ──
+			{
+				displayName: 'Trim',
+				name: 'videoTrim',
+				type: 'collection',
+				placeholder: 'Add Setting',
+				default: {},
+				displayOptions: { show: { operation: ['post'], mediaType: ['video', 'carousel', 'story'] } },
+				description: 'Cut videos before upload. When the end is cut, video and audio fade out over the last second. What was cut is reported under video_processing in the output.',
+				options: [
+					{
+						displayName: 'Start Offset (Seconds)',
+						name: 'startOffset',
+						type: 'number',
+						typeOptions: { minValue: 0, numberPrecision: 2 },
+						default: 0,
+						description: 'Seconds to skip at the start of the video',
+					},
+					{
+						displayName: 'Max Duration (Seconds)',
+						name: 'maxDuration',
+						type: 'number',
+						typeOptions: { minValue: 0, numberPrecision: 2 },
+						default: 0,
+						description: 'Keep at most this many seconds after the start offset. 0 means no limit.',
+					},
+					{
+						displayName: 'Fit to Platform Limit',
+						name: 'fitToPlatformLimit',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to cut videos longer than the placement allows: Reels 90s, Stories 60s, carousel videos 60s, Facebook Page videos 4h',
+					},
+				],
+			},
+
+			// ── Audio Settings ──
+			{
+				displayName: 'Audio Settings',
+				name: 'audioSettings',
+				type: 'collection',
+				placeholder: 'Add Setting',
+				default: {},
+				displayOptions: { show: { operation: ['post'], mediaType: ['video', 'carousel', 'story'] } },
+				description: 'Loudness normalization and audio track handling for videos. Loudness and measured values are reported under video_processing in the output.',
+				options: [
+					{
+						displayName: 'Normalize Loudness',
+						name: 'normalizeLoudness',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to normalize audio loudness to the target (EBU R128, two-pass: measure, then apply)',
+					},
+					{
+						displayName: 'Target Loudness (LUFS)',
+						name: 'targetLufs',
+						type: 'number',
+						typeOptions: { minValue: -70, maxValue: -5, numberPrecision: 1 },
+						default: -14,
+						description: 'Integrated loudness target. -14 LUFS matches what Instagram and Facebook play back at.',
+					},
+					{
+						displayName: 'True Peak (dBTP)',
+						name: 'truePeak',
+						type: 'number',
+						typeOptions: { minValue: -9, maxValue: 0, numberPrecision: 1 },
+						default: -1.5,
+						description: 'Maximum true peak after normalization',
+					},
+					{
+						displayName: 'Loudness Range (LU)',
+						name: 'loudnessRange',
+						type: 'number',
+						typeOptions: { minValue: 1, maxValue: 50, numberPrecision: 1 },
+						default: 11,
+					},
+					{
+						displayName: 'Missing Audio',
+						name: 'missingAudio',
+						type: 'options',
+						options: [
+							{ name: 'Add Silent Track', value: 'silent', description: 'Instagram sometimes rejects MP4s without an audio track' },
+							{ name: 'Drop Audio Track', value: 'drop', description: 'Explicitly write the video without any audio stream' },
+						],
+						default: 'silent',
+						description: 'What to do when the video has no audio track',
+					},
+					{
+						displayName: 'Audio Track Mode',
+						name: 'audioTrackMode',
+						type: 'options',
+						options: [
+							{ name: 'Mix', value: 'mix', description: 'Mix the audio track under the video\'s own audio' },
+							{ name: 'Replace', value: 'replace', description: 'Use only the audio track' },
+						],
+						default: 'mix',
+						description: 'How the Audio Track is combined with the video\'s audio',
+					},
+					{
+						displayName: 'Audio Track Volume',
+						name: 'audioTrackVolume',
+						type: 'number',
+						typeOptions: { minValue: 0, maxValue: 4, numberPrecision: 2 },
+						default: 1,
+						description: 'Gain applied to the Audio Track (1 = unchanged, 0.3 = background music)',
+					},
+				],
+			},
+
 			// ── Video Conversion Settings ──
 			{
 				displayName: 'Video Conversion Settings',
@@ -728,8 +2972,8 @@ export class MetaPost implements INodeType {
 				type: 'collection',
 				placeholder: 'Add Setting',
 				default: {},
-				displayOptions: { show: { mediaType: ['video', 'carousel'] } },
-				description: 'Settings for video conversion (always applied for videos)',
+				displayOptions: { show: { operation: ['post'], mediaType: ['video', 'carousel', 'story'] } },
+				description: 'Settings for video conversion. Videos that already match them skip the re-encode. Stories always fill a 1080x1920 frame.',
 				options: [
 					{
 						displayName: 'Video Codec',
@@ -810,9 +3054,77 @@ export class MetaPost implements INodeType {
 						default: '4500k',
 						description: 'Maximum video bitrate (Instagram Reels limit is 5 Mbps)',
 					},
+					{
+						displayName: 'Always Re-encode',
+						name: 'alwaysReencode',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to re-encode every video. By default, videos that already match these settings (H.264/AAC, within size, FPS and bitrate) are uploaded as-is or only remuxed into a faststart MP4.',
+					},
 					],
 			},
 
+			// ── Media Handling ──
+			{
+				displayName: 'Media Handling',
+				name: 'mediaHandling',
+				type: 'collection',
+				placeholder: 'Add Setting',
+				default: {},
+				displayOptions: { show: { operation: ['post'] } },
+				description: 'Temp files, size limits and chunked uploads. Media is streamed through temp files on disk instead of memory; they are removed when the item finishes, fails or the execution is cancelled.',
+				options: [
+					{
+						displayName: 'Max Media Size (MB)',
+						name: 'maxMediaSizeMb',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: 1024,
+						description: 'Largest file accepted per download or binary input. Larger media fails the item before it fills the disk.',
+					},
+					{
+						displayName: 'Temp Directory',
+						name: 'tempDirectory',
+						type: 'string',
+						default: '',
+						placeholder: '/data/tmp',
+						description: 'Directory for the temp files. Defaults to the system temp directory; point it at a volume with room for the source and converted videos.',
+					},
+					{
+						displayName: 'Upload Chunk Size (MB)',
+						name: 'uploadChunkSizeMb',
+						type: 'number',
+						typeOptions: { minValue: 1, maxValue: 100 },
+						default: 8,
+						description: 'Size of each chunk sent to Instagram and to Facebook Reels and Stories. Facebook videos use the chunk size Facebook asks for.',
+					},
+					{
+						displayName: 'Upload Retries',
+						name: 'uploadRetries',
+						type: 'number',
+						typeOptions: { minValue: 0, maxValue: 10 },
+						default: 4,
+						description: 'How often a failed chunk is retried with backoff (1s, 2s, 4s, ...) before the upload fails. Interrupted uploads resume from the last byte the server received.',
+					},
+					{
+						displayName: 'Carousel Concurrency',
+						name: 'carouselConcurrency',
+						type: 'number',
+						typeOptions: { minValue: 1, maxValue: 10 },
+						default: 3,
+						description: 'How many carousel items are downloaded, converted and uploaded at the same time. Video items then wait for Instagram processing together. Each concurrent video runs its own ffmpeg process, so lower this on small workers.',
+					},
+					{
+						displayName: 'Conversion Cache Directory',
+						name: 'cacheDirectory',
+						type: 'string',
+						default: '',
+						placeholder: '/data/metapost-cache',
+						description: 'Optional directory that keeps converted images and videos between executions, keyed by the source content and the conversion settings. Within one execution downloads and conversions are always reused. Files here are never removed automatically; it is safe to clear the directory at any time.',
+					},
+				],
+			},
+
 		],
 	};
 
@@ -820,56 +3132,140 @@ export class MetaPost implements INodeType {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
 
-		for (let i = 0; i < items.length; i++) {
-			try {
-				const credentials = await this.getCredentials('facebookGraphApi');
-				const userAccessToken = credentials.accessToken as string;
-
-				const params = await readParams(this, i);
-				const caption = prepareCaption(params.caption, params.hashSuffix);
-
-				// Get page access token
-				const pageTokenResp = await graphApi.getPageAccessToken(
-					this, userAccessToken, params.facebookPageId, params.graphApiVersion,
-				);
-				const pageAccessToken = pageTokenResp.access_token;
-
-				// Resolve optional location to a Facebook Place ID (shared by IG location_id and FB place)
-				if (params.location && params.location.trim().length > 0) {
-					params.locationId = await graphApi.searchPlaceId(
-						this, userAccessToken, params.location, params.graphApiVersion,
-					);
-				}
-
-				let result: MetaPostResult;
-				if (params.mediaType === 'image') {
-					result = await handleImage(this, userAccessToken, pageAccessToken, params, caption);
-				} else if (params.mediaType === 'video') {
-					result = await handleVideo(this, userAccessToken, pageAccessToken, params, caption);
-				} else {
-					result = await handleCarousel(this, userAccessToken, pageAccessToken, params, caption);
-				}
+		// Downloads and conversions are shared by all items of the execution
+		const cache = createMediaCache(this.getExecutionCancelSignal?.());
+		const staticData = this.getWorkflowStaticData('node');
+		try {
+			for (let i = 0; i < items.length; i++) {
+				let workspace: MediaWorkspace | undefined;
+				let artifacts: ArtifactTracker | undefined;
+				try {
+					const credentials = await this.getCredentials('facebookGraphApi');
+					const userAccessToken = credentials.accessToken as string;
+
+					const operation = this.getNodeParameter('operation', i, 'post') as string;
+					if (operation === 'publishScheduled') {
+						const handle = parseScheduleHandle(this.getNodeParameter('scheduleHandle', i));
+						const result = await publishScheduledInstagram(
+							this, userAccessToken, handle,
+							this.getNodeParameter('graphApiVersion', i, 'v25.0') as string,
+						);
+						returnData.push({
+							json: result as unknown as IDataObject,
+							pairedItem: i,
+						});
+						continue;
+					}
+
+					workspace = await openWorkspace(this, i);
+					if (this.getNodeParameter('validateOnly', i, false) as boolean) {
+						const report = await runValidation(this, userAccessToken, i, workspace, cache);
+						returnData.push({
+							json: { validate_only: true, ...report } as unknown as IDataObject,
+							pairedItem: i,
+						});
+						continue;
+					}
+
+					const params = await readParams(this, i, workspace, cache);
+					artifacts = params.artifacts;
+					const invalidCues = subtitleErrors(params);
+					if (invalidCues.length > 0) {
+						throw new Error(`Invalid subtitle file:\n${invalidCues.join('\n')}`);
+					}
+					const captions = prepareCaptions(params);
+					let previous = this.getNodeParameter('resume', i, false) as boolean
+						? parsePreviousResult(this.getNodeParameter('previousResult', i))
+						: undefined;
+
+					let idempotencyKey: string | undefined;
+					let published: LedgerEntry | undefined;
+					if (this.getNodeParameter('preventDuplicates', i, false) as boolean) {
+						idempotencyKey = (this.getNodeParameter('idempotencyKey', i, '') as string).trim()
+							|| await defaultIdempotencyKey(this, params, captions);
+						if (!(this.getNodeParameter('forcePublish', i, false) as boolean)) {
+							published = findPublished(staticData, idempotencyKey);
+						}
+						if (published && !previous) {
+							returnData.push({
+								json: {
+									...published.result,
+									duplicate: true,
+									first_published_at: published.recorded_at,
+								} as unknown as IDataObject,
+								pairedItem: i,
+							});
+							continue;
+						}
+					}
+
+					if (previous) {
+						// A retried Resume run finds what the first one published in the ledger
+						if (published) previous = mergeResumedResult(previous, published.result);
+						const remaining = remainingTarget(params.publishTo, previous);
+						if (!remaining) {
+							const complete: MetaPostResult = mergeResumedResult(previous, {});
+							if (published) {
+								complete.duplicate = true;
+								complete.first_published_at = published.recorded_at;
+							}
+							returnData.push({
+								json: complete as unknown as IDataObject,
+								pairedItem: i,
+							});
+							continue;
+						}
+						params.publishTo = remaining;
+					}
+
+					const pageAccessToken = await resolveAccounts(this, userAccessToken, params);
+
+					let result: MetaPostResult;
+					if (params.mediaType === 'image') {
+						result = await handleImage(this, userAccessToken, pageAccessToken, params, captions);
+					} else if (params.mediaType === 'video') {
+						result = await handleVideo(this, userAccessToken, pageAccessToken, params, captions);
+					} else if (params.mediaType === 'story') {
+						result = await handleStory(this, userAccessToken, pageAccessToken, params);
+					} else {
+						result = await handleCarousel(this, userAccessToken, pageAccessToken, params, captions);
+					}
+
+					await postFirstComments(this, userAccessToken, pageAccessToken, params, result);
+					result = previous ? mergeResumedResult(previous, result) : setPlatformStatus(result);
+					if (idempotencyKey) {
+						result.idempotency_key = idempotencyKey;
+						recordPublished(staticData, idempotencyKey, result);
+					}
 
-				returnData.push({
-					json: result as unknown as IDataObject,
-					pairedItem: i,
-				});
-			} catch (error) {
-				const err = error as any;
-				const detail =
-					err.description ||
-					err.cause?.body?.error?.message ||
-					err.message ||
-					'Unknown error';
-				if (this.continueOnFail()) {
 					returnData.push({
-						json: { error: detail },
+						json: result as unknown as IDataObject,
 						pairedItem: i,
 					});
-				} else {
-					throw new NodeOperationError(this.getNode(), detail, { itemIndex: i });
+				} catch (error) {
+					const detail = errorDetail(error);
+					// Nothing was published: remove what the post created on the way
+					const cleaned = (await artifacts?.rollback()) ?? [];
+					if (this.continueOnFail()) {
+						const output: IDataObject = { error: detail };
+						if (cleaned.length > 0) output.cleaned_up = cleaned as unknown as IDataObject[];
+						returnData.push({
+							json: output,
+							pairedItem: i,
+						});
+					} else {
+						throw new NodeOperationError(this.getNode(), detail, {
+							itemIndex: i,
+							description: describeCleanup(cleaned),
+						});
+					}
+				} finally {
+					// Intermediate files never outlive the item; cached media goes with the execution
+					workspace?.cleanup();
 				}
 			}
+		} finally {
+			cache.cleanup();
 		}
 
 		return [returnData];
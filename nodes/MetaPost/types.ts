@@ -1,18 +1,100 @@
+import type {
+	AudioOptions,
+	FitMode,
+	OverlayOptions,
+	SubtitlePosition,
+	VideoProcessingReport,
+} from './utils/ffmpeg';
+import type { ParsedSubtitles } from './utils/subtitles';
+import type { ArtifactTracker, CleanedArtifact } from './utils/artifacts';
+import type { MediaCache } from './utils/mediaCache';
+import type { MediaWorkspace } from './utils/workspace';
+
+export type MediaInputSource = 'url' | 'binary';
+
+export type PublishTarget = 'both' | 'instagram' | 'facebook';
+
+export type FacebookVideoFormat = 'video' | 'reel';
+
+export type Platform = 'instagram' | 'facebook';
+
+// Skipped platforms were not a target of the post
+export type PlatformState = 'published' | 'failed' | 'skipped';
+
+// 'auto' snaps to the nearest ratio Instagram allows (4:5 to 1.91:1)
+export type AspectRatioSetting = 'original' | 'auto' | '9:16' | '4:5' | '1:1' | '1.91:1';
+
 export interface CarouselItem {
 	mediaType: 'image' | 'video';
 	mediaUrl: string;
+	// Set when the item comes from an n8n binary property instead of a URL
+	binaryPropertyName?: string;
+	altText?: string;
+	userTags?: UserTag[];
+}
+
+/** Instagram user tag; x/y are fractions of the image from the top left. */
+export interface UserTag {
+	username: string;
+	x: number;
+	y: number;
 }
 
 export interface MetaPostParams {
-	mediaType: 'image' | 'video' | 'carousel';
+	itemIndex: number;
+	// Temp directory for this item's intermediate files
+	workspace: MediaWorkspace;
+	// Downloads and conversions shared across the execution's items
+	cache: MediaCache;
+	// Keeps conversions between executions when set
+	cacheDirectory?: string;
+	// Photos, videos and containers created so far, rolled back on failure
+	artifacts: ArtifactTracker;
+	mediaType: 'image' | 'video' | 'carousel' | 'story';
+	// Resolved kind of the single story media (story posts only)
+	storyMediaType?: 'image' | 'video';
+	inputSource: MediaInputSource;
 	mediaUrl: string;
+	binaryPropertyName: string;
+	coverBinaryPropertyName: string;
 	carouselItems: CarouselItem[];
+	// Alt text and user tags for single image posts (carousel items carry their own)
+	altText: string;
+	userTags: UserTag[];
+	// Instagram usernames invited as collaborators
+	collaborators: string[];
+	// Posted as a comment on each published post
+	firstComment: string;
 	caption: string;
 	hashSuffix: string;
+	// Optional per-platform overrides; empty falls back to caption/hashSuffix
+	instagramCaption: string;
+	instagramHashSuffix: string;
+	facebookCaption: string;
+	facebookHashSuffix: string;
 	location: string;
 	locationId?: string;
+	// Unix seconds; set when the post is scheduled instead of published now
+	publishAt?: number;
+	aspectRatio: AspectRatioSetting;
+	// Set for 'auto' carousels so every item gets the first item's ratio
+	resolvedAspectRatio?: number;
+	fitMode: FitMode;
+	padColor: string;
+	// Logo burned into every converted image and video
+	watermark?: OverlayOptions;
+	subtitles?: SubtitleSettings;
+	// Loudness normalization, missing-audio handling and external audio track
+	audio: AudioOptions;
+	publishTo: PublishTarget;
+	// How videos are published on Facebook: regular Page video or Reel
+	facebookVideoFormat: FacebookVideoFormat;
+	// Empty when Instagram is not a target
 	instagramAccountId: string;
+	// Optional staging page when publishing to Instagram only
 	facebookPageId: string;
+	// Token of that staging page, requested the first time an image is staged
+	stagingPageToken?: Promise<string>;
 	graphApiVersion: string;
 	// Image conversion settings
 	imageMaxWidth: number;
@@ -30,15 +112,97 @@ export interface MetaPostParams {
 	videoMaxWidth: number;
 	videoMaxHeight: number;
 	videoMaxBitrate: string;
+	videoAlwaysReencode: boolean;
+	// Video trim; a max duration of 0 means no limit
+	trimStart: number;
+	trimMaxDuration: number;
+	trimToPlatformLimit: boolean;
+	// Seconds into the published video used as cover when no cover image is given
+	coverFrameTime?: number;
+	// Chunked video uploads
+	uploadChunkSize: number;
+	uploadRetries: number;
+	// Carousel items converted and uploaded at the same time
+	carouselConcurrency: number;
+}
+
+/**
+ * Subtitles for video posts: burned into the frames for both platforms, or
+ * attached to the Facebook video as a caption track.
+ */
+export interface SubtitleSettings {
+	mode: 'burn' | 'facebookTrack';
+	parsed: ParsedSubtitles;
+	fontSize: number;
+	color: string;
+	position: SubtitlePosition;
+	// Facebook caption locale, e.g. en_US
+	locale: string;
+}
+
+export interface UploadSummary {
+	// e.g. "instagram_reel", "facebook_video", "instagram_carousel_item_2"
+	target: string;
+	total_bytes: number;
+	sent_bytes: number;
+	chunks: number;
+	retries: number;
+}
+
+export interface PlatformCaptions {
+	instagram: string;
+	facebook: string;
 }
 
 export interface MetaPostResult {
-	instagram_post_id: string;
-	instagram_permalink: string;
-	facebook_post_id: string;
+	instagram_post_id?: string;
+	instagram_permalink?: string;
+	facebook_post_id?: string;
 	facebook_photo_id?: string;
 	facebook_video_id?: string;
+	instagram_story_id?: string;
+	facebook_story_id?: string;
 	location_id?: string;
+	scheduled?: boolean;
+	scheduled_publish_time?: string;
+	instagram_container_id?: string;
+	instagram_schedule_handle?: IgScheduleHandle;
+	instagram_comment_id?: string;
+	facebook_comment_id?: string;
+	// Locale of the caption track attached to the Facebook video
+	facebook_captions_locale?: string;
+	// Video time (seconds) the Reel cover and Facebook thumbnail were taken from
+	cover_frame_time?: number;
+	// Probe and processing decision (passthrough/remux/transcode) per uploaded video
+	video_processing?: VideoProcessingReport[];
+	// Bytes sent, chunks and retries per chunked video upload
+	uploads?: UploadSummary[];
+	// Non-fatal problems, e.g. a first comment that could not be posted
+	warnings?: string[];
+	// Outcome per platform; scheduled posts count as published
+	platform_status?: Record<Platform, PlatformState>;
+	// Why a platform failed after the other one was already published
+	platform_errors?: Partial<Record<Platform, string>>;
+	// Artifacts of the failed platform that were rolled back
+	cleaned_up?: CleanedArtifact[];
+	// Key the post was recorded under when duplicate protection is on
+	idempotency_key?: string;
+	// Set when the post was skipped because the key was already published
+	duplicate?: boolean;
+	// When the earlier post with the same key was published (duplicates only)
+	first_published_at?: string;
+}
+
+/**
+ * Returned for scheduled Instagram posts. Instagram has no native scheduling,
+ * so a later run passes this back to publish the prepared container.
+ */
+export interface IgScheduleHandle {
+	container_id: string;
+	instagram_account_id: string;
+	publish_at: number;
+	// Posted as the first comment once the scheduled container is published
+	first_comment?: string;
 }
 
 export interface PageTokenResponse {
@@ -64,6 +228,10 @@ export interface IgPermalinkResponse {
 	permalink: string;
 }
 
+export interface IgCommentResponse {
+	id: string;
+}
+
 export interface IgStatusResponse {
 	id: string;
 	status_code: 'EXPIRED' | 'ERROR' | 'FINISHED' | 'IN_PROGRESS' | 'PUBLISHED';
@@ -92,3 +260,34 @@ export interface FbVideoSourceResponse {
 export interface FbFeedPostResponse {
 	id: string;
 }
+
+export interface FbCommentResponse {
+	id: string;
+}
+
+export interface FbStoryResponse {
+	success: boolean;
+	post_id: string;
+}
+
+export interface FbVideoUploadSessionResponse {
+	video_id: string;
+	upload_url: string;
+}
+
+// Start/transfer response of the chunked /videos upload; offsets are byte strings
+export interface FbVideoTransferSessionResponse {
+	video_id: string;
+	upload_session_id: string;
+	start_offset: string;
+	end_offset: string;
+}
+
+export interface FbReelResponse {
+	id: string;
+	post_id?: string;
+}
+
+export interface FbCaptionsResponse {
+	success: boolean;
+}
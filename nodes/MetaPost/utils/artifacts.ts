@@ -0,0 +1,74 @@
+import type { Platform } from '../types';
+
+export type ArtifactKind = 'facebook_photo' | 'facebook_video' | 'instagram_container';
+
+/**
+ * What happened to an artifact when a post failed: deleted through the
+ * Graph API, discarded (IG containers cannot be deleted and expire after
+ * 24 hours), kept for debugging, or a delete that failed.
+ */
+export interface CleanedArtifact {
+	kind: ArtifactKind;
+	id: string;
+	platform: Platform;
+	action: 'deleted' | 'discarded' | 'kept' | 'delete_failed';
+	error?: string;
+}
+
+/**
+ * Records everything a post creates on Meta's side (staged photos, uploaded
+ * videos, IG containers) so a failed post can be rolled back instead of
+ * leaving orphans behind. Artifacts of a successful post are simply dropped
+ * with the tracker.
+ */
+export interface ArtifactTracker {
+	// undo deletes the artifact; without it the artifact is only discarded
+	track(platform: Platform, kind: ArtifactKind, id: string, undo?: () => Promise<unknown>): void;
+	// Move an artifact to another platform, e.g. a staged photo a Facebook post reuses
+	reassign(id: string, platform: Platform): void;
+	// Undo the artifacts of one platform, or all of them, newest first
+	rollback(platform?: Platform): Promise<CleanedArtifact[]>;
+}
+
+interface TrackedArtifact {
+	platform: Platform;
+	kind: ArtifactKind;
+	id: string;
+	undo?: () => Promise<unknown>;
+}
+
+export function createArtifactTracker(keep: boolean): ArtifactTracker {
+	let tracked: TrackedArtifact[] = [];
+
+	return {
+		track: (platform, kind, id, undo) => {
+			tracked.push({ platform, kind, id, undo });
+		},
+		reassign: (id, platform) => {
+			for (const artifact of tracked) {
+				if (artifact.id === id) artifact.platform = platform;
+			}
+		},
+		rollback: async (platform) => {
+			const undone = tracked.filter((a) => !platform || a.platform === platform).reverse();
+			tracked = tracked.filter((a) => !undone.includes(a));
+
+			const cleaned: CleanedArtifact[] = [];
+			for (const { undo, ...artifact } of undone) {
+				if (keep) {
+					cleaned.push({ ...artifact, action: 'kept' });
+				} else if (!undo) {
+					cleaned.push({ ...artifact, action: 'discarded' });
+				} else {
+					try {
+						await undo();
+						cleaned.push({ ...artifact, action: 'deleted' });
+					} catch (err) {
+						cleaned.push({ ...artifact, action: 'delete_failed', error: (err as Error).message });
+					}
+				}
+			}
+			return cleaned;
+		},
+	};
+}
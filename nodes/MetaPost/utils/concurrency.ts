@@ -0,0 +1,30 @@
+/**
+ * Run fn over items with at most `limit` running at once and resolve to the
+ * results in item order. After the first failure no new items start; the
+ * error is thrown once the running ones have settled.
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let next = 0;
+	let failure: { error: unknown } | undefined;
+
+	const worker = async () => {
+		while (!failure && next < items.length) {
+			const index = next++;
+			try {
+				results[index] = await fn(items[index], index);
+			} catch (error) {
+				failure ??= { error };
+			}
+		}
+	};
+
+	const workers = Math.max(1, Math.min(limit, items.length));
+	await Promise.all(Array.from({ length: workers }, worker));
+	if (failure) throw failure.error;
+	return results;
+}
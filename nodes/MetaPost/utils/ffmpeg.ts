@@ -1,8 +1,11 @@
 import { spawn, execSync } from 'child_process';
 import * as fs from 'fs';
-import * as os from 'os';
 import * as path from 'path';
-import type { IExecuteFunctions } from 'n8n-workflow';
+import { probeMedia } from './probe';
+import type { MediaProbe } from './probe';
+import { toSrt } from './subtitles';
+import type { SubtitleCue } from './subtitles';
+import type { MediaWorkspace } from './workspace';
 
 let resolvedFfmpegPath: string | null = null;
 
@@ -10,7 +13,7 @@ let resolvedFfmpegPath: string | null = null;
  * Ensure the ffmpeg binary exists, downloading it if necessary.
  * ffmpeg-static's postinstall may not run in all environments (e.g. n8n Docker).
  */
-function ensureFfmpeg(): string {
+export function ensureFfmpeg(): string {
 	if (resolvedFfmpegPath) return resolvedFfmpegPath;
 
 	// eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -46,13 +49,69 @@ function ensureFfmpeg(): string {
 	return resolvedFfmpegPath;
 }
 
-export interface ImageConvertOptions {
+/**
+ * Full-screen 9:16 frame used for Stories. Media is scaled to fit and padded
+ * so Meta does not crop or zoom it on either platform.
+ */
+export const STORY_CANVAS = { width: 1080, height: 1920 };
+
+// Instagram feed media must sit between 4:5 portrait and 1.91:1 landscape
+export const IG_MIN_ASPECT_RATIO = 4 / 5;
+export const IG_MAX_ASPECT_RATIO = 1.91;
+
+export interface CanvasSize {
+	width: number;
+	height: number;
+}
+
+/**
+ * How media is fitted into a frame of a different aspect ratio:
+ * - pad: scale to fit and letterbox with a solid color
+ * - crop: scale to fill and cut off the overflow around the center
+ * - smart: scale to fill and keep the window with the most detail (edges)
+ * - blur: scale to fit over a blurred, zoomed copy of itself
+ */
+export type FitMode = 'pad' | 'crop' | 'smart' | 'blur';
+
+/**
+ * Reframing shared by images and videos. Either a fixed canvas (Stories) or a
+ * target aspect ratio the canvas is derived from per source; 'auto' keeps the
+ * source ratio when Instagram allows it and snaps to the nearest limit otherwise.
+ * The limits are Instagram's feed range, so only images and carousel items are
+ * framed with 'auto'; Reels keep their own ratio.
+ */
+export interface FrameOptions {
+	// Fit the media into exactly this size (e.g. STORY_CANVAS)
+	canvas?: CanvasSize;
+	aspectRatio?: number | 'auto';
+	fitMode?: FitMode;
+	// Letterbox color for the pad fit mode (ffmpeg color name or hex)
+	padColor?: string;
+}
+
+export type OverlayPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+/**
+ * Logo/watermark burned into the converted media. Scale and margin are
+ * fractions of the output frame width so the logo looks the same at any size.
+ */
+export interface OverlayOptions {
+	image: Buffer;
+	position: OverlayPosition;
+	scale: number;
+	margin: number;
+	// 0 (invisible) to 1 (opaque)
+	opacity: number;
+}
+
+export interface ImageConvertOptions extends FrameOptions {
 	maxWidth: number;
 	maxHeight: number;
 	outputFormat: 'jpeg' | 'png';
+	overlay?: OverlayOptions;
 }
 
-export interface VideoConvertOptions {
+export interface VideoConvertOptions extends FrameOptions {
 	videoCodec: string;
 	crf: number;
 	preset: string;
@@ -64,27 +123,391 @@ export interface VideoConvertOptions {
 	maxWidth: number;
 	maxHeight: number;
 	maxBitrate: string;
+	// Skip the compliance check and always run the full re-encode
+	alwaysReencode?: boolean;
+	trim?: TrimOptions;
+	overlay?: OverlayOptions;
+	subtitles?: BurnInSubtitles;
+	audio?: AudioOptions;
+}
+
+export interface AudioOptions {
+	// EBU R128 two-pass loudness normalization
+	loudness?: LoudnessTarget;
+	// When the output would have no audio: add a silent track (Instagram
+	// sometimes rejects MP4s without one) or explicitly write no audio stream
+	missingAudio: 'silent' | 'drop';
+	external?: ExternalAudio;
+}
+
+export interface LoudnessTarget {
+	// Integrated loudness in LUFS
+	integrated: number;
+	// Maximum true peak in dBTP
+	truePeak: number;
+	// Loudness range in LU
+	range: number;
+}
+
+/**
+ * Separate audio file mixed under the source audio or replacing it. It starts
+ * at the beginning of the (trimmed) video and is cut at its end.
+ */
+export interface ExternalAudio {
+	// Path of the audio file in the media workspace
+	file: string;
+	mode: 'mix' | 'replace';
+	// Gain applied to the external audio (1 = unchanged)
+	volume: number;
+}
+
+// Values measured by loudnorm's first pass
+export interface LoudnessMeasurement {
+	inputI: number;
+	inputTp: number;
+	inputLra: number;
+	inputThresh: number;
+	targetOffset: number;
+}
+
+export interface LoudnessReport {
+	targetLufs: number;
+	// Integrated loudness before normalization; null for silent audio
+	measuredLufs: number | null;
+	normalized: boolean;
+}
+
+export type AudioTrack = 'source' | 'mixed' | 'replaced' | 'silent' | 'none';
+
+export type SubtitlePosition = 'bottom' | 'middle' | 'top';
+
+/**
+ * Subtitles rendered into the video frames with libass.
+ */
+export interface BurnInSubtitles {
+	cues: SubtitleCue[];
+	// libass font size (relative to a 288px tall script canvas)
+	fontSize: number;
+	// Text color as #RRGGBB
+	color: string;
+	position: SubtitlePosition;
+}
+
+export interface TrimOptions {
+	// Seconds skipped at the start of the source
+	start: number;
+	// Keep at most this many seconds after the start offset
+	maxDuration?: number;
+}
+
+// Length of the fade-out applied when the end of a video is cut off
+export const TRIM_FADE_OUT_SECONDS = 1;
+
+/**
+ * Resolved cut for a specific source. The fade-out only applies when the end
+ * is cut, so trimmed videos don't stop mid-frame.
+ */
+export interface VideoCut {
+	start: number;
+	// Omitted when the video runs to its original end
+	duration?: number;
+	fadeOut: number;
+}
+
+export interface TrimReport {
+	start: number;
+	duration: number;
+	sourceDuration: number;
+	// Seconds removed from the start and end combined
+	removedSeconds: number;
+	fadeOut: number;
+}
+
+/**
+ * How a video was prepared for upload:
+ * - passthrough: already a compliant, faststart MP4 — uploaded as-is
+ * - remux: compliant streams in the wrong container/layout — copied into a faststart MP4
+ * - transcode: full re-encode with the conversion settings
+ */
+export type VideoProcessing = 'passthrough' | 'remux' | 'transcode';
+
+export interface VideoProcessingReport {
+	processing: VideoProcessing;
+	// Why the video could not be passed through as-is
+	reasons: string[];
+	probe: MediaProbe;
+	// Set when the video was trimmed
+	trim?: TrimReport;
+	// Where the output audio came from
+	audio?: AudioTrack;
+	loudness?: LoudnessReport;
+}
+
+export interface PreparedVideo {
+	// Upload-ready MP4 in the workspace; the input path itself for passthrough
+	path: string;
+	report: VideoProcessingReport;
 }
 
+// H.264 profiles Meta accepts without re-encoding
+const COMPLIANT_H264_PROFILES = ['Constrained Baseline', 'Baseline', 'Main', 'High'];
+
 /**
- * Convert image buffer using ffmpeg.
- * Images can be piped via stdin/stdout since there's no seeking requirement.
+ * Work out the output frame for a source of the given size. Returns undefined
+ * when the media keeps its own aspect ratio. The canvas never upscales: pad and
+ * blur grow the shorter side around the source, crop cuts into it.
+ */
+export function resolveCanvas(
+	frame: FrameOptions,
+	maxWidth: number,
+	maxHeight: number,
+	sourceWidth: number,
+	sourceHeight: number,
+): CanvasSize | undefined {
+	if (frame.canvas) return frame.canvas;
+	if (!frame.aspectRatio || !sourceWidth || !sourceHeight) return undefined;
+
+	const sourceRatio = sourceWidth / sourceHeight;
+	let ratio = frame.aspectRatio;
+	if (ratio === 'auto') {
+		ratio = Math.min(Math.max(sourceRatio, IG_MIN_ASPECT_RATIO), IG_MAX_ASPECT_RATIO);
+		if (ratio === sourceRatio) return undefined;
+	}
+
+	const crop = frame.fitMode === 'crop' || frame.fitMode === 'smart';
+	const boxWidth = Math.min(maxWidth, crop ? sourceWidth : Math.max(sourceWidth, sourceHeight * ratio));
+	const boxHeight = Math.min(maxHeight, crop ? sourceHeight : Math.max(sourceHeight, sourceWidth / ratio));
+
+	let width = boxWidth;
+	let height = width / ratio;
+	if (height > boxHeight) {
+		height = boxHeight;
+		width = height * ratio;
+	}
+	// libx264 with yuv420p needs even dimensions
+	return { width: Math.floor(width / 2) * 2, height: Math.floor(height / 2) * 2 };
+}
+
+// Columns (or rows) the smart crop scores the frame's detail in
+const SMART_CROP_BINS = 100;
+
+/**
+ * Where a smart crop keeps the frame, as fractions (0 = left/top edge,
+ * 1 = right/bottom edge) of the overflow that is cut off.
+ */
+interface CropFocus {
+	x: number;
+	y: number;
+}
+
+/**
+ * Build the scale/reframe filter chain. Without a canvas the media only
+ * shrinks to fit the max box; with one it is fitted to the exact size.
+ */
+function buildScaleFilter(
+	maxWidth: number,
+	maxHeight: number,
+	canvas?: CanvasSize,
+	fitMode: FitMode = 'pad',
+	padColor = 'black',
+	focus: CropFocus = { x: 0.5, y: 0.5 },
+): string {
+	if (!canvas) {
+		return `scale=${maxWidth}:${maxHeight}:force_original_aspect_ratio=decrease`;
+	}
+	const { width, height } = canvas;
+	const fit = `scale=${width}:${height}:force_original_aspect_ratio=decrease`;
+	const fill = `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+
+	if (fitMode === 'crop') return `${fill},setsar=1`;
+	if (fitMode === 'smart') {
+		return (
+			`scale=${width}:${height}:force_original_aspect_ratio=increase,` +
+			`crop=${width}:${height}:(iw-ow)*${focus.x.toFixed(3)}:(ih-oh)*${focus.y.toFixed(3)},setsar=1`
+		);
+	}
+	if (fitMode === 'blur') {
+		return (
+			`split[bg][fg];[bg]${fill},boxblur=20:5[bgb];[fg]${fit}[fgs];` +
+			`[bgb][fgs]overlay=(W-w)/2:(H-h)/2,setsar=1`
+		);
+	}
+	return `${fit},pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${padColor},setsar=1`;
+}
+
+/**
+ * Build the video part of the filter graph, ending in [vout]. With an overlay
+ * the logo (input 1) is scaled against the framed video and overlaid before
+ * the tail filters, so fades also cover the logo.
+ */
+function buildVideoGraph(frameChain: string, tail: string[], overlay?: OverlayOptions): string {
+	const tailChain = tail.map((f) => `,${f}`).join('');
+	if (!overlay) return `[0:v]${frameChain}${tailChain}[vout]`;
+
+	const m = `main_w*${overlay.margin}`;
+	const positions: Record<OverlayPosition, string> = {
+		'top-left': `${m}:${m}`,
+		'top-right': `main_w-overlay_w-${m}:${m}`,
+		'bottom-left': `${m}:main_h-overlay_h-${m}`,
+		'bottom-right': `main_w-overlay_w-${m}:main_h-overlay_h-${m}`,
+		'center': '(main_w-overlay_w)/2:(main_h-overlay_h)/2',
+	};
+	const opacity = Math.min(Math.max(overlay.opacity, 0), 1);
+	return (
+		`[0:v]${frameChain}[base];` +
+		`[1:v]format=rgba,colorchannelmixer=aa=${opacity}[logo];` +
+		`[logo][base]scale2ref=w='main_w*${overlay.scale}':h='ow/a'[wm][framed];` +
+		`[framed][wm]overlay=${positions[overlay.position]}:format=auto:shortest=1${tailChain}[vout]`
+	);
+}
+
+// ASS numpad alignment: 2 = bottom center, 5 = middle center, 8 = top center
+const SUBTITLE_ALIGNMENT: Record<SubtitlePosition, number> = { bottom: 2, middle: 5, top: 8 };
+
+/**
+ * Build the subtitles filter. The SRT is shifted by the trim start because
+ * seeking before the input resets the video timestamps to zero.
+ */
+function buildSubtitleFilter(
+	workspace: MediaWorkspace,
+	subtitles: BurnInSubtitles,
+	offset: number,
+): { filter: string; file: string } {
+	const file = workspace.file('subs.srt');
+	fs.writeFileSync(file, toSrt(subtitles.cues, -offset));
+
+	const hex = /^#?([0-9a-f]{6})$/i.exec(subtitles.color.trim())?.[1] ?? 'FFFFFF';
+	// ASS colors are &HBBGGRR
+	const assColor = `&H00${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`.toUpperCase();
+	const style = [
+		`FontSize=${subtitles.fontSize}`,
+		`PrimaryColour=${assColor}`,
+		'OutlineColour=&H00000000',
+		'BorderStyle=1',
+		'Outline=2',
+		`Alignment=${SUBTITLE_ALIGNMENT[subtitles.position]}`,
+		'MarginV=20',
+	].join(',');
+	return { filter: `subtitles=${escapeFilterValue(file)}:force_style='${style}'`, file };
+}
+
+// Escape a value for use inside an ffmpeg filter graph (e.g. Windows paths with ':')
+function escapeFilterValue(value: string): string {
+	return `'${value.replace(/\\/g, '/').replace(/'/g, "'\\''").replace(/:/g, '\\:')}'`;
+}
+
+function writeOverlayFile(workspace: MediaWorkspace, overlay?: OverlayOptions): string | undefined {
+	if (!overlay) return undefined;
+	const file = workspace.file('overlay');
+	fs.writeFileSync(file, overlay.image);
+	return file;
+}
+
+// Intermediate files go as soon as they are done with; the workspace removes the rest
+function removeFiles(...files: Array<string | undefined>): void {
+	for (const f of files) {
+		try { if (f) fs.rmSync(f, { force: true }); } catch { /* ignore */ }
+	}
+}
+
+/**
+ * Resolve a ratio-based frame against the source dimensions, probing the
+ * source when the caller has not already done so.
+ */
+async function resolveFrameCanvas(
+	workspace: MediaWorkspace,
+	inputPath: string,
+	options: FrameOptions & { maxWidth: number; maxHeight: number },
+): Promise<CanvasSize | undefined> {
+	if (options.canvas || !options.aspectRatio) return options.canvas;
+	const { video } = await probeMedia(inputPath, workspace.signal);
+	if (!video) return undefined;
+	return resolveCanvas(options, options.maxWidth, options.maxHeight, video.width, video.height);
+}
+
+/**
+ * Pick the crop window for the smart fit mode: the source frame (at atSec for
+ * videos) is edge-detected and averaged into strips along the side that gets
+ * cut, and the window over the strips with the most edges is kept. Ties stay
+ * closest to the center, so a flat frame is cropped like the crop mode.
+ */
+async function findCropFocus(
+	workspace: MediaWorkspace,
+	inputPath: string,
+	canvas: CanvasSize,
+	atSec?: number,
+): Promise<CropFocus> {
+	const center = { x: 0.5, y: 0.5 };
+	const { video } = await probeMedia(inputPath, workspace.signal);
+	if (!video?.width || !video.height) return center;
+
+	const sourceRatio = video.width / video.height;
+	const canvasRatio = canvas.width / canvas.height;
+	if (Math.abs(sourceRatio - canvasRatio) < 0.01) return center;
+	const horizontal = sourceRatio > canvasRatio;
+	const window = Math.round(
+		SMART_CROP_BINS * (horizontal ? canvasRatio / sourceRatio : sourceRatio / canvasRatio),
+	);
+	const slots = SMART_CROP_BINS - window;
+	if (slots <= 0) return center;
+
+	const strips = horizontal ? `${SMART_CROP_BINS}:1` : `1:${SMART_CROP_BINS}`;
+	const energy = await runFfmpegToBuffer(ensureFfmpeg(), [
+		'-hide_banner',
+		...(atSec ? ['-ss', atSec.toFixed(3)] : []),
+		'-i', inputPath,
+		'-frames:v', '1',
+		'-vf', `scale=-2:360,format=gray,edgedetect,scale=${strips}:flags=area`,
+		'-f', 'rawvideo',
+		'-pix_fmt', 'gray',
+		'-',
+	], workspace.signal);
+	if (energy.length < SMART_CROP_BINS) return center;
+
+	let sum = 0;
+	for (let i = 0; i < window; i++) sum += energy[i];
+	let best = { start: 0, sum, distance: slots / 2 };
+	for (let start = 1; start <= slots; start++) {
+		sum += energy[start + window - 1] - energy[start - 1];
+		const distance = Math.abs(start - slots / 2);
+		if (sum > best.sum || (sum === best.sum && distance < best.distance)) best = { start, sum, distance };
+	}
+	const offset = best.start / slots;
+	return horizontal ? { x: offset, y: 0.5 } : { x: 0.5, y: offset };
+}
+
+/**
+ * Convert an image file using ffmpeg. The converted image is small enough to
+ * be returned as a buffer for the photo upload.
  */
 export async function convertImage(
-	inputBuffer: Buffer,
+	workspace: MediaWorkspace,
+	inputPath: string,
 	options: ImageConvertOptions,
 ): Promise<Buffer> {
 	const ffmpeg = ensureFfmpeg();
+	const canvas = await resolveFrameCanvas(workspace, inputPath, options);
+	const focus = canvas && options.fitMode === 'smart'
+		? await findCropFocus(workspace, inputPath, canvas)
+		: undefined;
+	const frameChain = buildScaleFilter(
+		options.maxWidth, options.maxHeight, canvas, options.fitMode, options.padColor, focus,
+	);
+
+	const overlayFile = writeOverlayFile(workspace, options.overlay);
+	const outputFile = workspace.file(options.outputFormat === 'jpeg' ? 'image.jpg' : 'image.png');
 
 	const codec = options.outputFormat === 'jpeg' ? 'mjpeg' : 'png';
 	const args = [
-		'-i', 'pipe:0',
-		'-vf', `scale=${options.maxWidth}:${options.maxHeight}:force_original_aspect_ratio=decrease`,
+		'-i', inputPath,
+		...(overlayFile ? ['-i', overlayFile] : []),
+		'-filter_complex', buildVideoGraph(frameChain, [], options.overlay),
+		'-map', '[vout]',
+		'-frames:v', '1',
 		'-map_metadata', '-1',
-		// image2pipe (not image2) is required to stream a single still image to
-		// pipe:1. With ffmpeg 7.x the image2 muxer treats pipe output as a numbered
-		// sequence and aborts ("Cannot write more than one file with the same name").
-		'-f', 'image2pipe',
+		'-f', 'image2',
+		// Write one still image instead of a numbered sequence
+		'-update', '1',
 		'-c:v', codec,
 	];
 
@@ -92,32 +515,242 @@ export async function convertImage(
 		args.push('-q:v', '2');
 	}
 
-	args.push('pipe:1');
+	args.push('-y', outputFile);
+
+	try {
+		await runFfmpegFileToFile(ffmpeg, args, workspace.signal);
+		return await fs.promises.readFile(outputFile);
+	} finally {
+		removeFiles(overlayFile, outputFile);
+	}
+}
+
+/**
+ * Work out what to cut from a source of the given duration. Returns undefined
+ * when nothing needs cutting (or the duration is unknown and no start is set).
+ */
+export function resolveVideoCut(
+	trim: TrimOptions | undefined,
+	sourceDuration?: number,
+): VideoCut | undefined {
+	if (!trim) return undefined;
+	const start = Math.max(0, trim.start);
+
+	if (sourceDuration !== undefined && start >= sourceDuration) {
+		throw new Error(
+			`Trim start offset ${start}s is past the end of the ${sourceDuration.toFixed(1)}s video`,
+		);
+	}
+
+	const remaining = sourceDuration === undefined ? undefined : sourceDuration - start;
+	const cutsEnd = trim.maxDuration !== undefined && trim.maxDuration > 0
+		&& (remaining === undefined || remaining > trim.maxDuration);
+
+	if (!cutsEnd) return start > 0 ? { start, fadeOut: 0 } : undefined;
+
+	const duration = trim.maxDuration as number;
+	return { start, duration, fadeOut: Math.min(TRIM_FADE_OUT_SECONDS, duration / 2) };
+}
+
+/**
+ * Decide where the output audio comes from for a source with or without audio.
+ */
+export function resolveAudioTrack(audio: AudioOptions | undefined, sourceHasAudio: boolean): AudioTrack {
+	if (audio?.external) {
+		return audio.external.mode === 'mix' && sourceHasAudio ? 'mixed' : 'replaced';
+	}
+	if (sourceHasAudio) return 'source';
+	return audio?.missingAudio === 'silent' ? 'silent' : 'none';
+}
+
+/**
+ * Length of the converted video: the cut, or the rest of the source after the
+ * trim start. Undefined when the source duration is unknown.
+ */
+function outputDuration(cut: VideoCut | undefined, sourceDuration?: number): number | undefined {
+	if (cut?.duration !== undefined) return cut.duration;
+	if (sourceDuration === undefined) return undefined;
+	return Math.max(0, sourceDuration - (cut?.start ?? 0));
+}
+
+/**
+ * Build the audio part of the filter graph, ending in [aout]. Returns
+ * undefined when the output has no audio. Sources that never end on their own
+ * (silence, padded external audio) are trimmed to the video's duration:
+ * -shortest does not stop them when the output comes from -filter_complex.
+ */
+function buildAudioGraph(
+	track: AudioTrack,
+	audio: AudioOptions | undefined,
+	externalInput: number | undefined,
+	tail: string[],
+	duration: number | undefined,
+): string | undefined {
+	let head: string;
+	const external = audio?.external;
+	const endless = () => {
+		if (duration === undefined) {
+			throw new Error(
+				'The video duration could not be read, so the added audio track cannot be cut to the video length',
+			);
+		}
+		return `atrim=end=${duration.toFixed(3)}`;
+	};
+
+	if (track === 'none') return undefined;
+	if (track === 'silent') {
+		head = `anullsrc=channel_layout=stereo:sample_rate=48000,${endless()}`;
+	} else if (track === 'replaced' && external) {
+		head = `[${externalInput}:a:0]volume=${external.volume},apad,${endless()}`;
+	} else if (track === 'mixed' && external) {
+		// amix scales every input by 1/inputs and has no option to turn that off
+		// on older ffmpeg builds, so both inputs stay active (the external audio
+		// is padded) and the sum is doubled back to the chosen levels
+		head =
+			`[0:a:0]anull[asrc];[${externalInput}:a:0]volume=${external.volume},apad[aext];` +
+			'[asrc][aext]amix=inputs=2:duration=first:dropout_transition=0,volume=2';
+	} else {
+		head = '[0:a:0]anull';
+	}
+
+	return `${[head, ...tail].join(',')}[aout]`;
+}
+
+function audioFadeFilters(cut?: VideoCut): string[] {
+	if (cut?.duration === undefined || cut.fadeOut <= 0) return [];
+	const fadeStart = (cut.duration - cut.fadeOut).toFixed(3);
+	return [`afade=t=out:st=${fadeStart}:d=${cut.fadeOut}`];
+}
+
+function cutInputArgs(cut?: VideoCut): { before: string[]; after: string[] } {
+	return {
+		before: cut && cut.start > 0 ? ['-ss', cut.start.toString()] : [],
+		after: cut?.duration !== undefined ? ['-t', cut.duration.toString()] : [],
+	};
+}
+
+/**
+ * First loudnorm pass: measure the final audio mix (after trim, fades and
+ * external audio) without writing any output.
+ */
+export async function measureLoudness(
+	workspace: MediaWorkspace,
+	inputPath: string,
+	options: VideoConvertOptions,
+	source: MediaProbe,
+	cut?: VideoCut,
+): Promise<LoudnessMeasurement | undefined> {
+	const target = options.audio?.loudness;
+	const track = resolveAudioTrack(options.audio, !!source.audio);
+	if (!target || track === 'none' || track === 'silent') return undefined;
+
+	const ffmpeg = ensureFfmpeg();
+	const externalFile = options.audio?.external?.file;
+
+	const audioGraph = buildAudioGraph(track, options.audio, externalFile ? 1 : undefined, [
+		...audioFadeFilters(cut),
+		`loudnorm=I=${target.integrated}:TP=${target.truePeak}:LRA=${target.range}:print_format=json`,
+	], outputDuration(cut, source.durationSec));
+	const { before, after } = cutInputArgs(cut);
 
-	return runFfmpegPipe(ffmpeg, args, inputBuffer);
+	const args = [
+		'-hide_banner',
+		...before,
+		'-i', inputPath,
+		...(externalFile ? ['-i', externalFile] : []),
+		...after,
+		'-filter_complex', audioGraph!,
+		'-map', '[aout]',
+		'-f', 'null',
+		'-',
+	];
+
+	const stderr = await runFfmpegCapture(ffmpeg, args, workspace.signal);
+	const json = /\{[^{}]*"input_i"[^{}]*\}/.exec(stderr);
+	if (!json) throw new Error('ffmpeg loudnorm did not report a measurement');
+	const m = JSON.parse(json[0]) as Record<string, string>;
+	return {
+		inputI: parseFloat(m.input_i),
+		inputTp: parseFloat(m.input_tp),
+		inputLra: parseFloat(m.input_lra),
+		inputThresh: parseFloat(m.input_thresh),
+		targetOffset: parseFloat(m.target_offset),
+	};
 }
 
 /**
- * Convert video buffer using ffmpeg.
- * Videos write to a temp file because -movflags +faststart requires seeking.
+ * Convert a video file into a new MP4 in the workspace and return its path.
+ * Output goes to a file because -movflags +faststart requires seeking.
+ * A cut seeks before decoding and fades video and audio out over the last
+ * second when the end is cut off. Loudness is normalized in a second pass
+ * using a measurement from measureLoudness.
  */
 export async function convertVideo(
-	inputBuffer: Buffer,
+	workspace: MediaWorkspace,
+	inputPath: string,
 	options: VideoConvertOptions,
-): Promise<Buffer> {
+	cut?: VideoCut,
+	loudness?: LoudnessMeasurement,
+	probe?: MediaProbe,
+): Promise<string> {
 	const ffmpeg = ensureFfmpeg();
+	const canvas = await resolveFrameCanvas(workspace, inputPath, options);
+	const source = probe ?? await probeMedia(inputPath, workspace.signal);
+	const duration = outputDuration(cut, source.durationSec);
+	// Smart crop keeps the detail of the frame in the middle of the output
+	const focus = canvas && options.fitMode === 'smart'
+		? await findCropFocus(workspace, inputPath, canvas, (cut?.start ?? 0) + (duration ?? 0) / 2)
+		: undefined;
+	let frameChain = `${buildScaleFilter(
+		options.maxWidth, options.maxHeight, canvas, options.fitMode, options.padColor, focus,
+	)},fps=${options.fps}`;
+	let subtitleFile: string | undefined;
+	if (options.subtitles) {
+		const subtitles = buildSubtitleFilter(workspace, options.subtitles, cut?.start ?? 0);
+		frameChain += `,${subtitles.filter}`;
+		subtitleFile = subtitles.file;
+	}
+	const videoTail: string[] = [];
+	if (cut?.duration !== undefined && cut.fadeOut > 0) {
+		const fadeStart = (cut.duration - cut.fadeOut).toFixed(3);
+		videoTail.push(`fade=t=out:st=${fadeStart}:d=${cut.fadeOut}`);
+	}
 
-	const tmpPrefix = path.join(
-		os.tmpdir(),
-		`metapost_${Date.now()}_${Math.random().toString(36).slice(2)}`,
-	);
-	const tmpInput = `${tmpPrefix}_in.mp4`;
-	const tmpOutput = `${tmpPrefix}_out.mp4`;
+	const outputFile = workspace.file('converted.mp4');
+	const overlayFile = writeOverlayFile(workspace, options.overlay);
+	const externalFile = options.audio?.external?.file;
 
-	fs.writeFileSync(tmpInput, inputBuffer);
+	// Input order: 0 = video, then the optional logo, then the optional external audio
+	const externalInput = externalFile ? (overlayFile ? 2 : 1) : undefined;
+	const audioTail = audioFadeFilters(cut);
+	const target = options.audio?.loudness;
+	// Silent audio (measured as -inf) can't be normalized
+	if (target && loudness && Number.isFinite(loudness.inputI)) {
+		audioTail.push(
+			`loudnorm=I=${target.integrated}:TP=${target.truePeak}:LRA=${target.range}` +
+			`:measured_I=${loudness.inputI}:measured_TP=${loudness.inputTp}` +
+			`:measured_LRA=${loudness.inputLra}:measured_thresh=${loudness.inputThresh}` +
+			`:offset=${loudness.targetOffset}:linear=true`,
+		);
+	}
+	const audioGraph = buildAudioGraph(
+		resolveAudioTrack(options.audio, !!source.audio), options.audio, externalInput, audioTail, duration,
+	);
+	const graph = [buildVideoGraph(frameChain, videoTail, options.overlay), audioGraph]
+		.filter((g) => g)
+		.join(';');
+	const { before, after } = cutInputArgs(cut);
 
 	const args = [
-		'-i', tmpInput,
+		...before,
+		'-i', inputPath,
+		// Loop the still logo so it stays on every frame of the video
+		...(overlayFile ? ['-loop', '1', '-i', overlayFile] : []),
+		...(externalFile ? ['-i', externalFile] : []),
+		...after,
+		'-filter_complex', graph,
+		'-map', '[vout]',
+		...(audioGraph ? ['-map', '[aout]'] : ['-an']),
 		'-c:v', options.videoCodec,
 		'-pix_fmt', 'yuv420p',
 		'-profile:v', 'high',
@@ -126,57 +759,337 @@ export async function convertVideo(
 		'-maxrate', options.maxBitrate,
 		'-bufsize', options.maxBitrate.replace(/(\d+)/, (_, n) => String(parseInt(n) * 2)),
 		'-preset', options.preset,
-		'-vf', `scale=${options.maxWidth}:${options.maxHeight}:force_original_aspect_ratio=decrease,fps=${options.fps}`,
-		'-c:a', options.audioCodec,
-		'-b:a', options.audioBitrate,
-		'-ac', options.audioChannels.toString(),
-		'-ar', options.audioSampleRate.toString(),
+		...(audioGraph
+			? [
+				'-c:a', options.audioCodec,
+				'-b:a', options.audioBitrate,
+				'-ac', options.audioChannels.toString(),
+				'-ar', options.audioSampleRate.toString(),
+			]
+			: []),
 		'-movflags', '+faststart',
 		'-map_metadata', '-1',
 		'-f', 'mp4',
 		'-y',
-		tmpOutput,
+		outputFile,
 	];
 
 	try {
-		await runFfmpegFileToFile(ffmpeg, args);
-		return fs.readFileSync(tmpOutput);
+		await runFfmpegFileToFile(ffmpeg, args, workspace.signal);
+		return outputFile;
+	} catch (err) {
+		removeFiles(outputFile);
+		throw err;
 	} finally {
-		for (const f of [tmpInput, tmpOutput]) {
-			try { if (fs.existsSync(f)) fs.unlinkSync(f); } catch { /* ignore */ }
+		removeFiles(overlayFile, subtitleFile);
+	}
+}
+
+/**
+ * Parse an ffmpeg bitrate string ("4500k", "5M", "800000") into kb/s.
+ * Returns NaN when the string is not a bitrate.
+ */
+export function parseBitrateKbps(bitrate: string): number {
+	const match = /^(\d+(?:\.\d+)?)\s*([kKmM]?)/.exec(bitrate.trim());
+	if (!match) return NaN;
+	const value = parseFloat(match[1]);
+	const unit = match[2].toLowerCase();
+	if (unit === 'm') return value * 1000;
+	if (unit === 'k') return value;
+	return value / 1000;
+}
+
+/**
+ * Probe a video and only do as much work as it needs: upload compliant
+ * faststart MP4s untouched, remux compliant streams, re-encode everything else.
+ */
+export async function prepareVideo(
+	workspace: MediaWorkspace,
+	inputPath: string,
+	options: VideoConvertOptions,
+): Promise<PreparedVideo> {
+	const probe = await probeMedia(inputPath, workspace.signal);
+	// Resolve a ratio-based frame once so the compliance check and the
+	// re-encode agree on the output size
+	const canvas = probe.video
+		? resolveCanvas(options, options.maxWidth, options.maxHeight, probe.video.width, probe.video.height)
+		: undefined;
+	const resolved: VideoConvertOptions = { ...options, canvas, aspectRatio: undefined };
+	const cut = resolveVideoCut(options.trim, probe.durationSec);
+	const audioTrack = resolveAudioTrack(options.audio, !!probe.audio);
+
+	const reasons = options.alwaysReencode
+		? ['Always Re-encode is enabled']
+		: transcodeReasons(probe, resolved);
+	if (cut) reasons.push('Video is trimmed');
+	if (options.overlay) reasons.push('Watermark overlay is applied');
+	if (options.subtitles) reasons.push('Subtitles are burned in');
+	if (audioTrack === 'mixed') reasons.push('External audio is mixed in');
+	if (audioTrack === 'replaced') reasons.push('Audio is replaced with the external file');
+	if (audioTrack === 'silent') reasons.push('Silent audio track is added');
+	if (options.audio?.loudness && (audioTrack === 'source' || audioTrack === 'mixed' || audioTrack === 'replaced')) {
+		reasons.push('Loudness is normalized');
+	}
+
+	if (reasons.length > 0) {
+		const report: VideoProcessingReport = { processing: 'transcode', reasons, probe, audio: audioTrack };
+		if (cut) report.trim = trimReport(cut, probe.durationSec);
+
+		const target = options.audio?.loudness;
+		const measurement = await measureLoudness(workspace, inputPath, resolved, probe, cut);
+		if (target && measurement) {
+			const audible = Number.isFinite(measurement.inputI);
+			report.loudness = {
+				targetLufs: target.integrated,
+				measuredLufs: audible ? measurement.inputI : null,
+				normalized: audible,
+			};
+		}
+		return {
+			path: await convertVideo(workspace, inputPath, resolved, cut, measurement, probe),
+			report,
+		};
+	}
+
+	const layoutReasons = await remuxReasons(probe, inputPath);
+	if (layoutReasons.length > 0) {
+		return {
+			path: await remuxVideo(workspace, inputPath),
+			report: { processing: 'remux', reasons: layoutReasons, probe, audio: audioTrack },
+		};
+	}
+
+	return { path: inputPath, report: { processing: 'passthrough', reasons: [], probe, audio: audioTrack } };
+}
+
+function trimReport(cut: VideoCut, sourceDuration?: number): TrimReport {
+	const source = sourceDuration ?? cut.start + (cut.duration ?? 0);
+	const duration = cut.duration ?? source - cut.start;
+	return {
+		start: cut.start,
+		duration,
+		sourceDuration: source,
+		removedSeconds: Math.max(0, Math.round((source - duration) * 1000) / 1000),
+		fadeOut: cut.duration !== undefined ? cut.fadeOut : 0,
+	};
+}
+
+/**
+ * List the stream properties that do not match the conversion settings.
+ * An empty list means the streams can be kept as they are.
+ */
+function transcodeReasons(probe: MediaProbe, options: VideoConvertOptions): string[] {
+	const reasons: string[] = [];
+	const { video, audio } = probe;
+
+	if (!video) return ['No video stream found'];
+
+	if (video.codec !== 'h264') reasons.push(`Video codec is ${video.codec}, not h264`);
+	if (video.profile && !COMPLIANT_H264_PROFILES.includes(video.profile)) {
+		reasons.push(`H.264 profile ${video.profile} is not supported`);
+	}
+	if (video.pixelFormat !== 'yuv420p') {
+		reasons.push(`Pixel format is ${video.pixelFormat ?? 'unknown'}, not yuv420p`);
+	}
+	if (video.rotation) reasons.push(`Video has ${video.rotation}° rotation metadata`);
+
+	if (options.canvas) {
+		if (video.width !== options.canvas.width || video.height !== options.canvas.height) {
+			reasons.push(
+				`Resolution ${video.width}x${video.height} is not ${options.canvas.width}x${options.canvas.height}`,
+			);
 		}
+	} else if (video.width > options.maxWidth || video.height > options.maxHeight) {
+		reasons.push(
+			`Resolution ${video.width}x${video.height} exceeds ${options.maxWidth}x${options.maxHeight}`,
+		);
+	}
+
+	if (!video.fps) {
+		reasons.push('Frame rate is unknown');
+	} else if (video.fps < 23 || video.fps > options.fps + 0.01) {
+		reasons.push(`Frame rate ${video.fps} fps is outside 23-${options.fps} fps`);
 	}
+
+	const maxKbps = parseBitrateKbps(options.maxBitrate);
+	const videoKbps = video.bitrateKbps ?? probe.bitrateKbps;
+	if (!videoKbps) {
+		reasons.push('Video bitrate is unknown');
+	} else if (Number.isNaN(maxKbps) || videoKbps > maxKbps) {
+		reasons.push(`Video bitrate ${videoKbps} kb/s exceeds ${options.maxBitrate}`);
+	}
+
+	if (audio) {
+		if (audio.codec !== options.audioCodec) {
+			reasons.push(`Audio codec is ${audio.codec}, not ${options.audioCodec}`);
+		}
+		if (audio.sampleRate && audio.sampleRate > options.audioSampleRate) {
+			reasons.push(`Audio sample rate ${audio.sampleRate} Hz exceeds ${options.audioSampleRate} Hz`);
+		}
+		if (audio.channels && audio.channels > options.audioChannels) {
+			reasons.push(`Audio has ${audio.channels} channels, more than ${options.audioChannels}`);
+		}
+	}
+
+	return reasons;
 }
 
 /**
- * Download a file from a URL as a Buffer.
+ * Compliant streams still need a remux unless they already sit in an MP4
+ * with the moov atom in front (faststart), which Meta's ingest expects.
  */
-export async function downloadMedia(
-	ctx: IExecuteFunctions,
-	url: string,
+async function remuxReasons(probe: MediaProbe, filePath: string): Promise<string[]> {
+	const reasons: string[] = [];
+	const isMp4 = probe.container?.split(',').includes('mp4') && probe.majorBrand?.trim() !== 'qt';
+	if (!isMp4) {
+		reasons.push(`Container is ${probe.majorBrand?.trim() || probe.container || 'unknown'}, not MP4`);
+	} else if (!(await isFastStart(filePath))) {
+		reasons.push('MP4 is not faststart (moov atom after mdat)');
+	}
+	return reasons;
+}
+
+/**
+ * Walk the top-level MP4 boxes and check that moov comes before mdat. Only the
+ * 16-byte box headers are read, so the file never has to be loaded.
+ */
+async function isFastStart(filePath: string): Promise<boolean> {
+	const file = await fs.promises.open(filePath, 'r');
+	try {
+		const { size: fileSize } = await file.stat();
+		const header = Buffer.alloc(16);
+		let offset = 0;
+		while (offset + 8 <= fileSize) {
+			const { bytesRead } = await file.read(header, 0, 16, offset);
+			if (bytesRead < 8) return false;
+			let size = header.readUInt32BE(0);
+			const type = header.toString('latin1', 4, 8);
+			if (type === 'moov') return true;
+			if (type === 'mdat') return false;
+			if (size === 1) {
+				if (bytesRead < 16) return false;
+				size = Number(header.readBigUInt64BE(8));
+			} else if (size === 0) {
+				return false;
+			}
+			if (size < 8) return false;
+			offset += size;
+		}
+		return false;
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * Copy the streams into a faststart MP4 without re-encoding.
+ */
+export async function remuxVideo(workspace: MediaWorkspace, inputPath: string): Promise<string> {
+	const ffmpeg = ensureFfmpeg();
+	const outputFile = workspace.file('remuxed.mp4');
+
+	const args = [
+		'-i', inputPath,
+		'-map', '0:v:0',
+		'-map', '0:a:0?',
+		'-c', 'copy',
+		'-movflags', '+faststart',
+		'-map_metadata', '-1',
+		'-f', 'mp4',
+		'-y',
+		outputFile,
+	];
+
+	try {
+		await runFfmpegFileToFile(ffmpeg, args, workspace.signal);
+		return outputFile;
+	} catch (err) {
+		removeFiles(outputFile);
+		throw err;
+	}
+}
+
+/**
+ * Grab a single JPEG frame at the given time (seconds), e.g. for a video cover.
+ */
+export async function extractFrame(
+	workspace: MediaWorkspace,
+	inputPath: string,
+	timeSec: number,
 ): Promise<Buffer> {
-	const response = await ctx.helpers.httpRequest({
-		method: 'GET',
-		url,
-		encoding: 'arraybuffer',
-		returnFullResponse: true,
+	const ffmpeg = ensureFfmpeg();
+	const outputFile = workspace.file('frame.jpg');
+
+	const args = [
+		'-ss', timeSec.toString(),
+		'-i', inputPath,
+		'-frames:v', '1',
+		'-q:v', '2',
+		'-map_metadata', '-1',
+		'-f', 'image2',
+		'-c:v', 'mjpeg',
+		'-y',
+		outputFile,
+	];
+
+	try {
+		await runFfmpegFileToFile(ffmpeg, args, workspace.signal);
+		const frame = await fs.promises.readFile(outputFile);
+		if (frame.length === 0) {
+			throw new Error(`No video frame found at ${timeSec}s`);
+		}
+		return frame;
+	} finally {
+		removeFiles(outputFile);
+	}
+}
+
+/**
+ * Run ffmpeg for its stderr report (e.g. loudnorm measurements with -f null).
+ */
+function runFfmpegCapture(bin: string, args: string[], signal?: AbortSignal): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const proc = spawn(bin, args, {
+			stdio: ['ignore', 'ignore', 'pipe'],
+			signal,
+		});
+
+		let stderr = '';
+
+		proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+
+		proc.on('close', (code) => {
+			if (code === 0) {
+				resolve(stderr);
+			} else {
+				reject(new Error(`ffmpeg exited with code ${code}: ${stderr}`));
+			}
+		});
+
+		proc.on('error', (err) => {
+			if (signal?.aborted) {
+				reject(new Error('ffmpeg was stopped because the execution was cancelled'));
+				return;
+			}
+			reject(new Error(`Failed to spawn ffmpeg: ${err.message}`));
+		});
 	});
-	return Buffer.from(response.body as ArrayBuffer);
 }
 
 /**
- * Run ffmpeg with stdin input and stdout output (for images).
+ * Run ffmpeg for the raw output it writes to stdout (e.g. analysis frames).
  */
-function runFfmpegPipe(bin: string, args: string[], inputBuffer: Buffer): Promise<Buffer> {
+function runFfmpegToBuffer(bin: string, args: string[], signal?: AbortSignal): Promise<Buffer> {
 	return new Promise((resolve, reject) => {
 		const proc = spawn(bin, args, {
-			stdio: ['pipe', 'pipe', 'pipe'],
+			stdio: ['ignore', 'pipe', 'pipe'],
+			signal,
 		});
 
 		const chunks: Buffer[] = [];
 		let stderr = '';
 
-		proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+		proc.stdout.on('data', (chunk: Buffer) => { chunks.push(chunk); });
 		proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
 
 		proc.on('close', (code) => {
@@ -188,21 +1101,24 @@ function runFfmpegPipe(bin: string, args: string[], inputBuffer: Buffer): Promis
 		});
 
 		proc.on('error', (err) => {
+			if (signal?.aborted) {
+				reject(new Error('ffmpeg was stopped because the execution was cancelled'));
+				return;
+			}
 			reject(new Error(`Failed to spawn ffmpeg: ${err.message}`));
 		});
-
-		proc.stdin.write(inputBuffer);
-		proc.stdin.end();
 	});
 }
 
 /**
- * Run ffmpeg with file input and file output (for video — MP4 needs seeking).
+ * Run ffmpeg with file input and file output (MP4 needs seeking). Aborting
+ * the signal kills ffmpeg so a cancelled execution does not leave it running.
  */
-function runFfmpegFileToFile(bin: string, args: string[]): Promise<void> {
+function runFfmpegFileToFile(bin: string, args: string[], signal?: AbortSignal): Promise<void> {
 	return new Promise((resolve, reject) => {
 		const proc = spawn(bin, args, {
 			stdio: ['ignore', 'pipe', 'pipe'],
+			signal,
 		});
 
 		let stderr = '';
@@ -218,6 +1134,10 @@ function runFfmpegFileToFile(bin: string, args: string[]): Promise<void> {
 		});
 
 		proc.on('error', (err) => {
+			if (signal?.aborted) {
+				reject(new Error('ffmpeg was stopped because the execution was cancelled'));
+				return;
+			}
 			reject(new Error(`Failed to spawn ffmpeg: ${err.message}`));
 		});
 	});
@@ -1,3 +1,4 @@
+import * as fs from 'fs';
 import type { IExecuteFunctions } from 'n8n-workflow';
 import type {
 	PageTokenResponse,
@@ -10,9 +11,19 @@ import type {
 	FbVideoResponse,
 	FbVideoSourceResponse,
 	FbFeedPostResponse,
+	FbStoryResponse,
+	FbVideoUploadSessionResponse,
+	FbVideoTransferSessionResponse,
+	FbReelResponse,
+	UserTag,
+	IgCommentResponse,
+	FbCommentResponse,
+	FbCaptionsResponse,
 } from '../types';
 
 const GRAPH_BASE = 'https://graph.facebook.com';
+// Host for the chunked (upload_phase) Page video upload protocol
+const GRAPH_VIDEO_BASE = 'https://graph-video.facebook.com';
 
 // ── Page Access Token ──────────────────────────────────────────────
 
@@ -67,6 +78,181 @@ export function formatGraphError(context: string, resp: FullResponse): string {
 	return `${context} failed (${parts.join(', ')}): ${msg}`;
 }
 
+// ── Chunked Uploads ────────────────────────────────────────────────
+
+export interface UploadProgress {
+	// e.g. "Instagram video byte upload"
+	context: string;
+	sentBytes: number;
+	totalBytes: number;
+	chunks: number;
+	// Chunk retries so far
+	retries: number;
+}
+
+export interface ChunkedUploadOptions {
+	// Bytes per chunk for rupload uploads; Facebook /videos picks its own chunk size
+	chunkSize: number;
+	// Retries per chunk before the upload fails
+	maxRetries: number;
+	onProgress?: (progress: UploadProgress) => void;
+}
+
+export const DEFAULT_UPLOAD_OPTIONS: ChunkedUploadOptions = {
+	chunkSize: 8 * 1024 * 1024,
+	maxRetries: 4,
+};
+
+const MAX_RETRY_DELAY_MS = 30_000;
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Exponential backoff: 1s, 2s, 4s, ... capped at 30s
+function retryDelay(attempt: number): number {
+	return Math.min(1000 * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * True for chunk failures worth retrying: throttling, server errors and
+ * errors Meta flags as transient. Other 4xx responses fail immediately.
+ */
+function isTransientUploadFailure(resp: FullResponse): boolean {
+	return resp.statusCode === 429 || resp.statusCode >= 500 || resp.body?.error?.is_transient === true;
+}
+
+async function readChunk(file: fs.promises.FileHandle, offset: number, length: number): Promise<Buffer> {
+	const chunk = Buffer.alloc(length);
+	const { bytesRead } = await file.read(chunk, 0, length, offset);
+	return bytesRead === length ? chunk : chunk.subarray(0, bytesRead);
+}
+
+/**
+ * Send one chunk request, turning network errors into undefined so the
+ * caller can decide whether to retry.
+ */
+async function trySendChunk(
+	send: () => Promise<unknown>,
+): Promise<{ resp?: FullResponse; error?: string }> {
+	try {
+		return { resp: (await send()) as FullResponse };
+	} catch (err) {
+		return { error: (err as Error).message };
+	}
+}
+
+/**
+ * Ask a rupload endpoint how many bytes it already holds, so an interrupted
+ * upload resumes from there instead of from the start.
+ */
+async function getRuploadOffset(
+	ctx: IExecuteFunctions,
+	accessToken: string,
+	uploadUrl: string,
+): Promise<number | undefined> {
+	const { resp } = await trySendChunk(() => ctx.helpers.httpRequest({
+		method: 'GET',
+		url: uploadUrl,
+		headers: { Authorization: `OAuth ${accessToken}` },
+		ignoreHttpStatusErrors: true,
+		returnFullResponse: true,
+	}));
+	const offset = Number(resp?.body?.offset);
+	return resp && resp.statusCode < 400 && Number.isFinite(offset) ? offset : undefined;
+}
+
+/**
+ * Send a file to a rupload.facebook.com URL (Instagram resumable containers,
+ * Page video stories and Reels) in chunks. A failed chunk is retried with
+ * backoff from the offset the server reports having received.
+ */
+async function uploadRuploadFile(
+	ctx: IExecuteFunctions,
+	accessToken: string,
+	uploadUrl: string,
+	filePath: string,
+	context: string,
+	options: ChunkedUploadOptions,
+): Promise<void> {
+	const file = await fs.promises.open(filePath, 'r');
+	try {
+		const { size } = await file.stat();
+		const chunkSize = Math.max(1, options.chunkSize);
+		let offset = 0;
+		let chunks = 0;
+		let retries = 0;
+		let attempt = 0;
+		let finalResp: FullResponse | undefined;
+
+		while (offset < size) {
+			const chunk = await readChunk(file, offset, Math.min(chunkSize, size - offset));
+			const { resp, error } = await trySendChunk(() => ctx.helpers.httpRequest({
+				method: 'POST',
+				url: uploadUrl,
+				headers: {
+					Authorization: `OAuth ${accessToken}`,
+					offset: offset.toString(),
+					file_size: size.toString(),
+					'Content-Type': 'application/octet-stream',
+				},
+				body: chunk,
+				ignoreHttpStatusErrors: true,
+				returnFullResponse: true,
+			}));
+
+			if (resp && resp.statusCode < 400) {
+				offset += chunk.length;
+				chunks++;
+				attempt = 0;
+				if (offset >= size) finalResp = resp;
+				options.onProgress?.({ context, sentBytes: offset, totalBytes: size, chunks, retries });
+				continue;
+			}
+
+			if ((resp && !isTransientUploadFailure(resp)) || attempt >= options.maxRetries) {
+				throw new Error(
+					resp
+						? formatGraphError(context, resp)
+						: `${context} failed at byte ${offset} of ${size} after ${retries} retries: ${error}`,
+				);
+			}
+			attempt++;
+			retries++;
+			await sleep(retryDelay(attempt));
+			const serverOffset = await getRuploadOffset(ctx, accessToken, uploadUrl);
+			if (serverOffset !== undefined) offset = Math.min(Math.max(serverOffset, 0), size);
+		}
+
+		// The rupload endpoint returns HTTP 200 with { success: true } only when the
+		// bytes were actually accepted. Anything else means the video did not arrive —
+		// fail fast with the raw response instead of letting the container hang in
+		// IN_PROGRESS until the poll times out. (When a retry found the server
+		// already holding every byte there is no final response to check.)
+		if (finalResp && finalResp.body?.success !== true) {
+			throw new Error(
+				`${context} did not confirm success (HTTP ${finalResp.statusCode}, ` +
+				`${size} bytes sent): ${JSON.stringify(finalResp.body)}`,
+			);
+		}
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * Offsets Facebook asks a failed transfer to resume from, when it reports them.
+ */
+function transferResumeOffsets(resp: FullResponse): { start: number; end: number } | undefined {
+	let data = resp.body?.error?.error_data;
+	if (typeof data === 'string') {
+		try { data = JSON.parse(data); } catch { return undefined; }
+	}
+	const start = Number(data?.start_offset);
+	const end = Number(data?.end_offset);
+	return Number.isFinite(start) && Number.isFinite(end) ? { start, end } : undefined;
+}
+
 export async function tryCreateIgImageContainer(
 	ctx: IExecuteFunctions,
 	userAccessToken: string,
@@ -75,9 +261,15 @@ export async function tryCreateIgImageContainer(
 	caption: string,
 	apiVersion: string,
 	locationId?: string,
+	altText?: string,
+	userTags?: UserTag[],
+	collaborators?: string[],
 ): Promise<FullResponse> {
 	const qs: Record<string, string> = { image_url: imageUrl, caption, access_token: userAccessToken };
 	if (locationId) qs.location_id = locationId;
+	if (altText) qs.alt_text = altText;
+	if (userTags && userTags.length > 0) qs.user_tags = JSON.stringify(userTags);
+	if (collaborators && collaborators.length > 0) qs.collaborators = JSON.stringify(collaborators);
 	return ctx.helpers.httpRequest({
 		method: 'POST',
 		url: `${GRAPH_BASE}/${apiVersion}/${igAccountId}/media`,
@@ -95,9 +287,15 @@ export async function createIgImageContainer(
 	caption: string,
 	apiVersion: string,
 	locationId?: string,
+	altText?: string,
+	userTags?: UserTag[],
+	collaborators?: string[],
 ): Promise<IgContainerResponse> {
 	const qs: Record<string, string> = { image_url: imageUrl, caption, access_token: userAccessToken };
 	if (locationId) qs.location_id = locationId;
+	if (altText) qs.alt_text = altText;
+	if (userTags && userTags.length > 0) qs.user_tags = JSON.stringify(userTags);
+	if (collaborators && collaborators.length > 0) qs.collaborators = JSON.stringify(collaborators);
 	return ctx.helpers.httpRequest({
 		method: 'POST',
 		url: `${GRAPH_BASE}/${apiVersion}/${igAccountId}/media`,
@@ -120,6 +318,8 @@ export async function createIgReelContainerResumable(
 	apiVersion: string,
 	coverUrl?: string,
 	locationId?: string,
+	collaborators?: string[],
+	thumbOffsetMs?: number,
 ): Promise<IgResumableContainerResponse> {
 	const qs: Record<string, string> = {
 		media_type: 'REELS',
@@ -130,10 +330,16 @@ export async function createIgReelContainerResumable(
 	};
 	if (coverUrl) {
 		qs.cover_url = coverUrl;
+	} else if (thumbOffsetMs !== undefined) {
+		// Frame (in ms) Instagram uses as the cover when no cover image is given
+		qs.thumb_offset = String(Math.round(thumbOffsetMs));
 	}
 	if (locationId) {
 		qs.location_id = locationId;
 	}
+	if (collaborators && collaborators.length > 0) {
+		qs.collaborators = JSON.stringify(collaborators);
+	}
 	const resp = (await ctx.helpers.httpRequest({
 		method: 'POST',
 		url: `${GRAPH_BASE}/${apiVersion}/${igAccountId}/media`,
@@ -148,41 +354,62 @@ export async function createIgReelContainerResumable(
 }
 
 /**
- * Upload video bytes to the resumable upload URI returned by
+ * Upload a video file in chunks to the resumable upload URI returned by
  * createIgReelContainerResumable() / createIgCarouselVideoItemContainerResumable().
  */
 export async function uploadIgVideoBytes(
 	ctx: IExecuteFunctions,
 	userAccessToken: string,
 	uploadUri: string,
-	buffer: Buffer,
+	filePath: string,
+	options: ChunkedUploadOptions = DEFAULT_UPLOAD_OPTIONS,
 ): Promise<void> {
+	await uploadRuploadFile(ctx, userAccessToken, uploadUri, filePath, 'Instagram video byte upload', options);
+}
+
+// ── Instagram: Stories ─────────────────────────────────────────────
+
+export async function tryCreateIgStoryImageContainer(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	igAccountId: string,
+	imageUrl: string,
+	apiVersion: string,
+): Promise<FullResponse> {
+	return ctx.helpers.httpRequest({
+		method: 'POST',
+		url: `${GRAPH_BASE}/${apiVersion}/${igAccountId}/media`,
+		qs: { media_type: 'STORIES', image_url: imageUrl, access_token: userAccessToken },
+		ignoreHttpStatusErrors: true,
+		returnFullResponse: true,
+	}) as Promise<FullResponse>;
+}
+
+/**
+ * Create an IG Story container for a video using the resumable upload flow.
+ * Returns { id, uri } — POST the video bytes to `uri` via uploadIgVideoBytes().
+ */
+export async function createIgStoryVideoContainerResumable(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	igAccountId: string,
+	apiVersion: string,
+): Promise<IgResumableContainerResponse> {
 	const resp = (await ctx.helpers.httpRequest({
 		method: 'POST',
-		url: uploadUri,
-		headers: {
-			Authorization: `OAuth ${userAccessToken}`,
-			offset: '0',
-			file_size: buffer.length.toString(),
-			'Content-Type': 'application/octet-stream',
+		url: `${GRAPH_BASE}/${apiVersion}/${igAccountId}/media`,
+		qs: {
+			media_type: 'STORIES',
+			upload_type: 'resumable',
+			access_token: userAccessToken,
 		},
-		body: buffer,
 		ignoreHttpStatusErrors: true,
 		returnFullResponse: true,
 	})) as FullResponse;
-	if (resp.statusCode >= 400) {
-		throw new Error(formatGraphError('Instagram video byte upload', resp));
-	}
-	// The rupload endpoint returns HTTP 200 with { success: true } only when the
-	// bytes were actually accepted. Anything else means the video did not arrive —
-	// fail fast with the raw response instead of letting the container hang in
-	// IN_PROGRESS until the poll times out.
-	if (resp.body?.success !== true) {
-		throw new Error(
-			`Instagram video byte upload did not confirm success (HTTP ${resp.statusCode}, ` +
-			`${buffer.length} bytes sent): ${JSON.stringify(resp.body)}`,
-		);
+	if (resp.statusCode >= 400 || !resp.body?.id) {
+		throw new Error(formatGraphError('Instagram Story container creation', resp));
 	}
+	return resp.body as IgResumableContainerResponse;
 }
 
 // ── Instagram: Carousel ─────────────────────────────────────────────
@@ -193,15 +420,20 @@ export async function createIgCarouselImageItemContainer(
 	igAccountId: string,
 	imageUrl: string,
 	apiVersion: string,
+	altText?: string,
+	userTags?: UserTag[],
 ): Promise<IgContainerResponse> {
+	const qs: Record<string, string> = {
+		is_carousel_item: 'true',
+		image_url: imageUrl,
+		access_token: userAccessToken,
+	};
+	if (altText) qs.alt_text = altText;
+	if (userTags && userTags.length > 0) qs.user_tags = JSON.stringify(userTags);
 	return ctx.helpers.httpRequest({
 		method: 'POST',
 		url: `${GRAPH_BASE}/${apiVersion}/${igAccountId}/media`,
-		qs: {
-			is_carousel_item: 'true',
-			image_url: imageUrl,
-			access_token: userAccessToken,
-		},
+		qs,
 	}) as Promise<IgContainerResponse>;
 }
 
@@ -235,6 +467,7 @@ export async function createIgCarouselContainer(
 	caption: string,
 	apiVersion: string,
 	locationId?: string,
+	collaborators?: string[],
 ): Promise<IgContainerResponse> {
 	const qs: Record<string, string> = {
 		media_type: 'CAROUSEL',
@@ -243,6 +476,7 @@ export async function createIgCarouselContainer(
 		access_token: userAccessToken,
 	};
 	if (locationId) qs.location_id = locationId;
+	if (collaborators && collaborators.length > 0) qs.collaborators = JSON.stringify(collaborators);
 	return ctx.helpers.httpRequest({
 		method: 'POST',
 		url: `${GRAPH_BASE}/${apiVersion}/${igAccountId}/media`,
@@ -271,6 +505,29 @@ export async function getIgContainerStatus(
 	return resp.body as IgStatusResponse;
 }
 
+/**
+ * Fetch the status of several containers in one call via the ?ids= lookup,
+ * keyed by container ID.
+ */
+export async function getIgContainerStatuses(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	containerIds: string[],
+	apiVersion: string,
+): Promise<Record<string, IgStatusResponse>> {
+	const resp = (await ctx.helpers.httpRequest({
+		method: 'GET',
+		url: `${GRAPH_BASE}/${apiVersion}/`,
+		qs: { ids: containerIds.join(','), fields: 'status_code,status', access_token: userAccessToken },
+		ignoreHttpStatusErrors: true,
+		returnFullResponse: true,
+	})) as FullResponse;
+	if (resp.statusCode >= 400) {
+		throw new Error(formatGraphError('Instagram container status check', resp));
+	}
+	return resp.body as Record<string, IgStatusResponse>;
+}
+
 // ── Instagram: Publish ─────────────────────────────────────────────
 
 export async function publishIgContainer(
@@ -310,6 +567,28 @@ export async function getIgPermalink(
 	return resp.body as IgPermalinkResponse;
 }
 
+// ── Instagram: Comments ────────────────────────────────────────────
+
+export async function createIgComment(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	igMediaId: string,
+	message: string,
+	apiVersion: string,
+): Promise<IgCommentResponse> {
+	const resp = (await ctx.helpers.httpRequest({
+		method: 'POST',
+		url: `${GRAPH_BASE}/${apiVersion}/${igMediaId}/comments`,
+		qs: { message, access_token: userAccessToken },
+		ignoreHttpStatusErrors: true,
+		returnFullResponse: true,
+	})) as FullResponse;
+	if (resp.statusCode >= 400 || !resp.body?.id) {
+		throw new Error(formatGraphError('Instagram comment', resp));
+	}
+	return resp.body as IgCommentResponse;
+}
+
 // ── Facebook: Photo Upload ─────────────────────────────────────────
 
 export async function uploadFbPhotoFromUrl(
@@ -341,10 +620,15 @@ export async function uploadFbPhotoFromBuffer(
 	mimeType: string,
 	published: boolean,
 	apiVersion: string,
+	temporary?: boolean,
+	altText?: string,
 ): Promise<FbPhotoResponse> {
 	const formData = new FormData();
 	formData.append('source', new Blob([buffer], { type: mimeType }), filename);
 	formData.append('published', published.toString());
+	// Photos attached to a scheduled feed post must be uploaded as temporary
+	if (temporary) formData.append('temporary', 'true');
+	if (altText) formData.append('alt_text_custom', altText);
 	formData.append('access_token', pageAccessToken);
 
 	return ctx.helpers.httpRequest({
@@ -369,43 +653,155 @@ export async function getFbPhotoImages(
 
 // ── Facebook: Video Upload ─────────────────────────────────────────
 
-export async function uploadFbVideoFromBuffer(
+/**
+ * Upload a video file to the Page's /videos edge with the chunked upload
+ * protocol: start a session, transfer the chunks Facebook asks for (retrying
+ * each with backoff), then finish with the post fields.
+ */
+export async function uploadFbVideoFromFile(
 	ctx: IExecuteFunctions,
 	pageAccessToken: string,
 	pageId: string,
-	buffer: Buffer,
+	filePath: string,
 	filename: string,
 	description: string,
 	published: boolean,
 	apiVersion: string,
 	placeId?: string,
 	thumbnail?: { buffer: Buffer; mimeType: string; filename: string },
+	scheduledPublishTime?: number,
+	options: ChunkedUploadOptions = DEFAULT_UPLOAD_OPTIONS,
 ): Promise<FbVideoResponse> {
-	const formData = new FormData();
-	formData.append('source', new Blob([buffer], { type: 'video/mp4' }), filename);
-	formData.append('description', description);
-	formData.append('published', published.toString());
-	if (placeId) formData.append('place', placeId);
-	if (thumbnail) {
-		formData.append(
-			'thumb',
-			new Blob([thumbnail.buffer], { type: thumbnail.mimeType }),
-			thumbnail.filename,
-		);
+	const url = `${GRAPH_VIDEO_BASE}/${apiVersion}/${pageId}/videos`;
+	const context = 'Facebook video upload';
+	const file = await fs.promises.open(filePath, 'r');
+	try {
+		const { size } = await file.stat();
+
+		const startForm = new FormData();
+		startForm.append('upload_phase', 'start');
+		startForm.append('file_size', size.toString());
+		startForm.append('access_token', pageAccessToken);
+		const startResp = (await ctx.helpers.httpRequest({
+			method: 'POST',
+			url,
+			body: startForm,
+			ignoreHttpStatusErrors: true,
+			returnFullResponse: true,
+		})) as FullResponse;
+		if (startResp.statusCode >= 400 || !startResp.body?.upload_session_id) {
+			throw new Error(formatGraphError('Facebook video upload start', startResp));
+		}
+		const session = startResp.body as FbVideoTransferSessionResponse;
+
+		let startOffset = Number(session.start_offset);
+		let endOffset = Number(session.end_offset);
+		let chunks = 0;
+		let retries = 0;
+		let attempt = 0;
+		while (startOffset < endOffset) {
+			const chunk = await readChunk(file, startOffset, endOffset - startOffset);
+			const form = new FormData();
+			form.append('upload_phase', 'transfer');
+			form.append('upload_session_id', session.upload_session_id);
+			form.append('start_offset', startOffset.toString());
+			form.append('video_file_chunk', new Blob([chunk], { type: 'application/octet-stream' }), filename);
+			form.append('access_token', pageAccessToken);
+			const { resp, error } = await trySendChunk(() => ctx.helpers.httpRequest({
+				method: 'POST',
+				url,
+				body: form,
+				ignoreHttpStatusErrors: true,
+				returnFullResponse: true,
+			}));
+
+			if (resp && resp.statusCode < 400 && resp.body?.start_offset !== undefined) {
+				startOffset = Number(resp.body.start_offset);
+				endOffset = Number(resp.body.end_offset);
+				chunks++;
+				attempt = 0;
+				options.onProgress?.({ context, sentBytes: startOffset, totalBytes: size, chunks, retries });
+				continue;
+			}
+
+			const resume = resp ? transferResumeOffsets(resp) : undefined;
+			if ((resp && !resume && !isTransientUploadFailure(resp)) || attempt >= options.maxRetries) {
+				throw new Error(
+					resp
+						? formatGraphError(context, resp)
+						: `${context} failed at byte ${startOffset} of ${size} after ${retries} retries: ${error}`,
+				);
+			}
+			attempt++;
+			retries++;
+			await sleep(retryDelay(attempt));
+			if (resume) {
+				startOffset = resume.start;
+				endOffset = resume.end;
+			}
+		}
+
+		const finishForm = new FormData();
+		finishForm.append('upload_phase', 'finish');
+		finishForm.append('upload_session_id', session.upload_session_id);
+		finishForm.append('description', description);
+		finishForm.append('published', published.toString());
+		if (scheduledPublishTime) {
+			finishForm.append('scheduled_publish_time', scheduledPublishTime.toString());
+		}
+		if (placeId) finishForm.append('place', placeId);
+		if (thumbnail) {
+			finishForm.append(
+				'thumb',
+				new Blob([thumbnail.buffer], { type: thumbnail.mimeType }),
+				thumbnail.filename,
+			);
+		}
+		finishForm.append('access_token', pageAccessToken);
+		const finishResp = (await ctx.helpers.httpRequest({
+			method: 'POST',
+			url,
+			body: finishForm,
+			ignoreHttpStatusErrors: true,
+			returnFullResponse: true,
+		})) as FullResponse;
+		if (finishResp.statusCode >= 400 || finishResp.body?.success !== true) {
+			throw new Error(formatGraphError('Facebook video upload finish', finishResp));
+		}
+		return { id: session.video_id };
+	} finally {
+		await file.close();
 	}
+}
+
+/**
+ * Attach an SRT caption track to an uploaded Page video or Reel. Facebook
+ * reads the locale from the file name (name.<locale>.srt).
+ */
+export async function uploadFbVideoCaptions(
+	ctx: IExecuteFunctions,
+	pageAccessToken: string,
+	videoId: string,
+	srt: string,
+	locale: string,
+	apiVersion: string,
+): Promise<FbCaptionsResponse> {
+	const formData = new FormData();
+	formData.append('captions_file', new Blob([srt], { type: 'application/x-subrip' }), `captions.${locale}.srt`);
+	formData.append('default_locale', locale);
 	formData.append('access_token', pageAccessToken);
 
 	const resp = (await ctx.helpers.httpRequest({
 		method: 'POST',
-		url: `${GRAPH_BASE}/${apiVersion}/${pageId}/videos`,
+		url: `${GRAPH_BASE}/${apiVersion}/${videoId}/captions`,
 		body: formData,
 		ignoreHttpStatusErrors: true,
 		returnFullResponse: true,
 	})) as FullResponse;
-	if (resp.statusCode >= 400 || !resp.body?.id) {
-		throw new Error(formatGraphError('Facebook video upload', resp));
+	if (resp.statusCode >= 400) {
+		throw new Error(formatGraphError('Facebook caption upload', resp));
 	}
-	return resp.body as FbVideoResponse;
+	return resp.body as FbCaptionsResponse;
 }
 
 export async function getFbVideoSource(
@@ -421,7 +817,147 @@ export async function getFbVideoSource(
 	}) as Promise<FbVideoSourceResponse>;
 }
 
-// ── Facebook: Delete Video ─────────────────────────────────────────
+// ── Facebook: Stories ──────────────────────────────────────────────
+
+/**
+ * Publish an already uploaded (unpublished) page photo as a Page story.
+ */
+export async function createFbPhotoStory(
+	ctx: IExecuteFunctions,
+	pageAccessToken: string,
+	pageId: string,
+	photoId: string,
+	apiVersion: string,
+): Promise<FbStoryResponse> {
+	const resp = (await ctx.helpers.httpRequest({
+		method: 'POST',
+		url: `${GRAPH_BASE}/${apiVersion}/${pageId}/photo_stories`,
+		qs: { photo_id: photoId, access_token: pageAccessToken },
+		ignoreHttpStatusErrors: true,
+		returnFullResponse: true,
+	})) as FullResponse;
+	if (resp.statusCode >= 400 || !resp.body?.post_id) {
+		throw new Error(formatGraphError('Facebook photo story', resp));
+	}
+	return resp.body as FbStoryResponse;
+}
+
+/**
+ * Publish a video as a Page story: start an upload session, send the bytes to
+ * the returned rupload URL, then finish the session to publish the story.
+ */
+export async function uploadFbVideoStory(
+	ctx: IExecuteFunctions,
+	pageAccessToken: string,
+	pageId: string,
+	filePath: string,
+	apiVersion: string,
+	options: ChunkedUploadOptions = DEFAULT_UPLOAD_OPTIONS,
+): Promise<FbStoryResponse & { video_id: string }> {
+	const startResp = (await ctx.helpers.httpRequest({
+		method: 'POST',
+		url: `${GRAPH_BASE}/${apiVersion}/${pageId}/video_stories`,
+		qs: { upload_phase: 'start', access_token: pageAccessToken },
+		ignoreHttpStatusErrors: true,
+		returnFullResponse: true,
+	})) as FullResponse;
+	if (startResp.statusCode >= 400 || !startResp.body?.video_id) {
+		throw new Error(formatGraphError('Facebook video story start', startResp));
+	}
+	const { video_id: videoId, upload_url: uploadUrl } = startResp.body as FbVideoUploadSessionResponse;
+
+	await uploadRuploadFile(ctx, pageAccessToken, uploadUrl, filePath, 'Facebook video story upload', options);
+
+	const finishResp = (await ctx.helpers.httpRequest({
+		method: 'POST',
+		url: `${GRAPH_BASE}/${apiVersion}/${pageId}/video_stories`,
+		qs: { upload_phase: 'finish', video_id: videoId, access_token: pageAccessToken },
+		ignoreHttpStatusErrors: true,
+		returnFullResponse: true,
+	})) as FullResponse;
+	if (finishResp.statusCode >= 400 || !finishResp.body?.post_id) {
+		throw new Error(formatGraphError('Facebook video story finish', finishResp));
+	}
+	return { ...(finishResp.body as FbStoryResponse), video_id: videoId };
+}
+
+// ── Facebook: Reels ────────────────────────────────────────────────
+
+/**
+ * Publish a video as a Facebook Reel via the video_reels start/upload/finish
+ * phases. The optional thumbnail is attached to the video before finishing.
+ */
+export async function uploadFbReel(
+	ctx: IExecuteFunctions,
+	pageAccessToken: string,
+	pageId: string,
+	filePath: string,
+	description: string,
+	apiVersion: string,
+	placeId?: string,
+	thumbnail?: { buffer: Buffer; mimeType: string; filename: string },
+	scheduledPublishTime?: number,
+	options: ChunkedUploadOptions = DEFAULT_UPLOAD_OPTIONS,
+): Promise<FbReelResponse> {
+	const startResp = (await ctx.helpers.httpRequest({
+		method: 'POST',
+		url: `${GRAPH_BASE}/${apiVersion}/${pageId}/video_reels`,
+		qs: { upload_phase: 'start', access_token: pageAccessToken },
+		ignoreHttpStatusErrors: true,
+		returnFullResponse: true,
+	})) as FullResponse;
+	if (startResp.statusCode >= 400 || !startResp.body?.video_id) {
+		throw new Error(formatGraphError('Facebook Reel start', startResp));
+	}
+	const { video_id: videoId, upload_url: uploadUrl } = startResp.body as FbVideoUploadSessionResponse;
+
+	await uploadRuploadFile(ctx, pageAccessToken, uploadUrl, filePath, 'Facebook Reel upload', options);
+
+	if (thumbnail) {
+		const formData = new FormData();
+		formData.append(
+			'source',
+			new Blob([thumbnail.buffer], { type: thumbnail.mimeType }),
+			thumbnail.filename,
+		);
+		formData.append('is_preferred', 'true');
+		formData.append('access_token', pageAccessToken);
+		const thumbResp = (await ctx.helpers.httpRequest({
+			method: 'POST',
+			url: `${GRAPH_BASE}/${apiVersion}/${videoId}/thumbnails`,
+			body: formData,
+			ignoreHttpStatusErrors: true,
+			returnFullResponse: true,
+		})) as FullResponse;
+		if (thumbResp.statusCode >= 400) {
+			throw new Error(formatGraphError('Facebook Reel thumbnail upload', thumbResp));
+		}
+	}
+
+	const qs: Record<string, string> = {
+		upload_phase: 'finish',
+		video_id: videoId,
+		description,
+		video_state: scheduledPublishTime ? 'SCHEDULED' : 'PUBLISHED',
+		access_token: pageAccessToken,
+	};
+	if (scheduledPublishTime) qs.scheduled_publish_time = scheduledPublishTime.toString();
+	if (placeId) qs.place = placeId;
+
+	const finishResp = (await ctx.helpers.httpRequest({
+		method: 'POST',
+		url: `${GRAPH_BASE}/${apiVersion}/${pageId}/video_reels`,
+		qs,
+		ignoreHttpStatusErrors: true,
+		returnFullResponse: true,
+	})) as FullResponse;
+	if (finishResp.statusCode >= 400 || finishResp.body?.success !== true) {
+		throw new Error(formatGraphError('Facebook Reel finish', finishResp));
+	}
+	return { id: videoId, post_id: finishResp.body?.post_id };
+}
+
+// ── Facebook: Delete ───────────────────────────────────────────────
 
 export async function deleteFbVideo(
 	ctx: IExecuteFunctions,
@@ -436,6 +972,19 @@ export async function deleteFbVideo(
 	});
 }
 
+export async function deleteFbPhoto(
+	ctx: IExecuteFunctions,
+	pageAccessToken: string,
+	photoId: string,
+	apiVersion: string,
+): Promise<void> {
+	await ctx.helpers.httpRequest({
+		method: 'DELETE',
+		url: `${GRAPH_BASE}/${apiVersion}/${photoId}`,
+		qs: { access_token: pageAccessToken },
+	});
+}
+
 // ── Facebook: Feed Post ────────────────────────────────────────────
 
 export async function createFbFeedPost(
@@ -446,6 +995,7 @@ export async function createFbFeedPost(
 	mediaFbIds: string | string[],
 	apiVersion: string,
 	placeId?: string,
+	scheduledPublishTime?: number,
 ): Promise<FbFeedPostResponse> {
 	const ids = Array.isArray(mediaFbIds) ? mediaFbIds : [mediaFbIds];
 
@@ -460,6 +1010,10 @@ export async function createFbFeedPost(
 			formData.append(`attached_media[${idx}]`, JSON.stringify({ media_fbid: id }));
 		});
 		if (placeId) formData.append('place', placeId);
+		if (scheduledPublishTime) {
+			formData.append('published', 'false');
+			formData.append('scheduled_publish_time', scheduledPublishTime.toString());
+		}
 		formData.append('access_token', pageAccessToken);
 
 		const resp = (await ctx.helpers.httpRequest({
@@ -486,6 +1040,28 @@ export async function createFbFeedPost(
 	throw lastErr;
 }
 
+// ── Facebook: Comments ─────────────────────────────────────────────
+
+export async function createFbComment(
+	ctx: IExecuteFunctions,
+	pageAccessToken: string,
+	objectId: string,
+	message: string,
+	apiVersion: string,
+): Promise<FbCommentResponse> {
+	const resp = (await ctx.helpers.httpRequest({
+		method: 'POST',
+		url: `${GRAPH_BASE}/${apiVersion}/${objectId}/comments`,
+		qs: { message, access_token: pageAccessToken },
+		ignoreHttpStatusErrors: true,
+		returnFullResponse: true,
+	})) as FullResponse;
+	if (resp.statusCode >= 400 || !resp.body?.id) {
+		throw new Error(formatGraphError('Facebook comment', resp));
+	}
+	return resp.body as FbCommentResponse;
+}
+
 // ── Location Search ─────────────────────────────────────────────────
 
 export async function searchPlaceId(
@@ -0,0 +1,147 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { IgStatusResponse } from '../types';
+import * as graphApi from './graphApi';
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * True for Meta's transient throttling errors — safe to back off and retry
+ * rather than fail the whole post. Covers app (#4), user (#17), page (#32),
+ * temporary (#341) and custom (#613) rate limits.
+ */
+function isRateLimitError(err: unknown): boolean {
+	const msg = (err as Error)?.message ?? '';
+	return /\(#(4|17|32|341|613)\)/.test(msg) || /request limit reached/i.test(msg);
+}
+
+interface PendingContainer {
+	registeredAt: number;
+	polls: number;
+	lastStatusCode: string;
+	lastStatusDetail: string;
+	resolve: () => void;
+	reject: (err: Error) => void;
+}
+
+export interface IgStatusPoller {
+	// Resolves once the container reaches FINISHED
+	wait(containerId: string): Promise<void>;
+	// Stop polling and reject every container still pending
+	stop(reason: string): void;
+}
+
+/**
+ * One polling loop for every pending Instagram container of a post. Each round
+ * fetches all pending statuses in a single batched call, so parallel carousel
+ * children don't each poll on their own.
+ */
+export function createIgStatusPoller(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	apiVersion: string,
+): IgStatusPoller {
+	const maxTotalMs = 3 * 60 * 1000;
+	const pending = new Map<string, PendingContainer>();
+	let running = false;
+
+	const rejectAll = (err: Error) => {
+		for (const entry of pending.values()) entry.reject(err);
+		pending.clear();
+	};
+
+	const loop = async () => {
+		running = true;
+		// Start at 20s and grow the interval to keep the number of status calls low —
+		// polling is the biggest consumer of Meta's per-hour API quota.
+		let interval = 20000;
+		let rateLimitRetried = false;
+		try {
+			while (pending.size > 0) {
+				await sleep(interval);
+				if (pending.size === 0) break;
+
+				let statuses: Record<string, IgStatusResponse>;
+				try {
+					statuses = await graphApi.getIgContainerStatuses(
+						ctx, userAccessToken, [...pending.keys()], apiVersion,
+					);
+				} catch (err) {
+					// Rate limit (#4 etc.) is app-wide — retrying just burns more of the
+					// exhausted quota. Retry once for a brief spike, then fail fast with
+					// actionable guidance instead of hammering the API.
+					if (isRateLimitError(err)) {
+						if (!rateLimitRetried) {
+							rateLimitRetried = true;
+							await sleep(45000);
+							continue;
+						}
+						rejectAll(new Error(
+							'Instagram Reel could not be published: Meta "(#4) Application request limit ' +
+							'reached". Your Meta app is over its API rate limit — this is app-wide, not ' +
+							'specific to this post. Wait ~1 hour without calling the Meta API (pause other ' +
+							'Meta workflows too), reduce call volume, or request a higher limit in the Meta ' +
+							'App Dashboard, then retry.',
+						));
+						return;
+					}
+					rejectAll(err as Error);
+					return;
+				}
+
+				for (const [containerId, entry] of [...pending.entries()]) {
+					const status: Partial<IgStatusResponse> = statuses[containerId] ?? {};
+					entry.polls++;
+					entry.lastStatusCode = status.status_code ?? '(empty)';
+					entry.lastStatusDetail = status.status ?? '';
+
+					if (status.status_code === 'FINISHED') {
+						pending.delete(containerId);
+						entry.resolve();
+					} else if (status.status_code === 'ERROR' || status.status_code === 'EXPIRED') {
+						pending.delete(containerId);
+						entry.reject(new Error(
+							`Instagram Reel processing failed: ${status.status || status.status_code}. ` +
+							'Ensure the video meets Instagram Reels requirements ' +
+							'(MP4 H.264, max 5 Mbps bitrate, max 90s, 9:16 aspect ratio recommended).',
+						));
+					} else if (Date.now() - entry.registeredAt >= maxTotalMs) {
+						pending.delete(containerId);
+						const mins = Math.round((Date.now() - entry.registeredAt) / 60000);
+						entry.reject(new Error(
+							`Instagram Reel status polling timed out after ${mins} min (${entry.polls} status polls, ` +
+							`last status_code=${entry.lastStatusCode}` +
+							`${entry.lastStatusDetail ? `, detail="${entry.lastStatusDetail}"` : ''}). ` +
+							'The container never reached FINISHED — the video is likely still processing or does not meet ' +
+							'Reels requirements (MP4 H.264, max 5 Mbps bitrate, max 90s).',
+						));
+					}
+				}
+
+				interval = Math.min(interval + 5000, 30000);
+			}
+		} finally {
+			running = false;
+		}
+	};
+
+	return {
+		wait: (containerId) => new Promise<void>((resolve, reject) => {
+			pending.set(containerId, {
+				registeredAt: Date.now(), polls: 0, lastStatusCode: '(none)', lastStatusDetail: '', resolve, reject,
+			});
+			if (!running) void loop();
+		}),
+		stop: (reason) => rejectAll(new Error(reason)),
+	};
+}
+
+export async function pollIgContainer(
+	ctx: IExecuteFunctions,
+	userAccessToken: string,
+	containerId: string,
+	apiVersion: string,
+): Promise<void> {
+	return createIgStatusPoller(ctx, userAccessToken, apiVersion).wait(containerId);
+}
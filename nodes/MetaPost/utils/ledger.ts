@@ -0,0 +1,52 @@
+import type { IDataObject } from 'n8n-workflow';
+import type { MetaPostResult } from '../types';
+
+/**
+ * A publish remembered in the workflow's static data, keyed by idempotency
+ * key, so a retried execution can return it instead of posting again.
+ */
+export interface LedgerEntry {
+	result: MetaPostResult;
+	// ISO time the post was published
+	recorded_at: string;
+}
+
+const LEDGER_FIELD = 'publishLedger';
+// Entries are dropped after this long, oldest first beyond the size cap
+const LEDGER_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const LEDGER_MAX_ENTRIES = 500;
+
+function ledgerOf(staticData: IDataObject): Record<string, LedgerEntry> {
+	if (typeof staticData[LEDGER_FIELD] !== 'object' || staticData[LEDGER_FIELD] === null) {
+		staticData[LEDGER_FIELD] = {};
+	}
+	return staticData[LEDGER_FIELD] as unknown as Record<string, LedgerEntry>;
+}
+
+export function findPublished(staticData: IDataObject, key: string): LedgerEntry | undefined {
+	return ledgerOf(staticData)[key];
+}
+
+/**
+ * Remember a publish under its key and prune expired entries. n8n only
+ * persists static data for production executions, not manual test runs.
+ */
+export function recordPublished(
+	staticData: IDataObject,
+	key: string,
+	result: MetaPostResult,
+	now = new Date(),
+): void {
+	const ledger = ledgerOf(staticData);
+	ledger[key] = { result, recorded_at: now.toISOString() };
+
+	const cutoff = now.getTime() - LEDGER_RETENTION_MS;
+	const keys = Object.keys(ledger)
+		.filter((k) => {
+			if (Date.parse(ledger[k].recorded_at) >= cutoff) return true;
+			delete ledger[k];
+			return false;
+		})
+		.sort((a, b) => Date.parse(ledger[a].recorded_at) - Date.parse(ledger[b].recorded_at));
+	for (const k of keys.slice(0, Math.max(0, keys.length - LEDGER_MAX_ENTRIES))) delete ledger[k];
+}
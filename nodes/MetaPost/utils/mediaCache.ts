@@ -0,0 +1,154 @@
+import { createHash, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createWorkspace } from './workspace';
+import type { MediaWorkspace } from './workspace';
+
+/**
+ * A cached file plus whatever the producer reported about it (e.g. the video
+ * processing report). A missing path means "use the input file as it is".
+ */
+export interface CachedFile<T> {
+	path?: string;
+	meta: T;
+}
+
+/**
+ * Per-execution cache for downloaded and converted media, so the Instagram and
+ * Facebook steps (and later items of the same execution) reuse files instead
+ * of downloading or encoding them again. Conversions can additionally be kept
+ * in a directory that persists between executions.
+ */
+export interface MediaCache {
+	// Reuse a file loaded earlier in this execution, or load it and keep it
+	load(key: string, loader: () => Promise<string>): Promise<string>;
+	// Reuse a conversion of the same content with the same options, or run it and keep the output
+	convert<T>(key: string, producer: () => Promise<CachedFile<T>>, persistentDir?: string): Promise<CachedFile<T>>;
+	cleanup(): void;
+}
+
+export function hashBuffer(buffer: Buffer | string): string {
+	return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * SHA-256 of a file, read as a stream so large videos never sit in memory.
+ */
+export async function hashFile(filePath: string): Promise<string> {
+	const hash = createHash('sha256');
+	for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk as Buffer);
+	return hash.digest('hex');
+}
+
+/**
+ * Stable key for a set of parts such as a content hash and conversion
+ * options. Buffers inside the options (e.g. a watermark image) are keyed by
+ * their hash rather than serialised.
+ */
+export function cacheKey(...parts: unknown[]): string {
+	const json = JSON.stringify(parts, function (this: Record<string, unknown>, key, value) {
+		const raw = this[key];
+		return Buffer.isBuffer(raw) ? hashBuffer(raw) : value;
+	});
+	return hashBuffer(json);
+}
+
+// Move a file into the cache; copies when the directories are on different devices
+async function moveFile(source: string, target: string): Promise<void> {
+	try {
+		await fs.promises.rename(source, target);
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+		await fs.promises.copyFile(source, target);
+		await fs.promises.rm(source, { force: true });
+	}
+}
+
+function fileExists(filePath: string): Promise<boolean> {
+	return fs.promises.access(filePath).then(() => true, () => false);
+}
+
+/**
+ * Create the cache for one execution. Its files live in their own temp
+ * directory, created next to the first item workspace that stores a file and
+ * removed by cleanup() or when the execution is cancelled.
+ */
+export function createMediaCache(signal?: AbortSignal): MediaCache {
+	const loads = new Map<string, Promise<string>>();
+	const conversions = new Map<string, Promise<CachedFile<unknown>>>();
+	let store: Promise<MediaWorkspace> | undefined;
+
+	// Item workspace files sit at <base>/<workspace>/<file>; the store goes in <base>
+	const adopt = async (filePath: string): Promise<string> => {
+		store ??= createWorkspace({
+			maxBytes: Infinity,
+			signal,
+			baseDir: path.dirname(path.dirname(filePath)),
+		});
+		const target = (await store).file(path.basename(filePath));
+		await moveFile(filePath, target);
+		return target;
+	};
+
+	const readPersistent = async <T>(dir: string, key: string): Promise<CachedFile<T> | undefined> => {
+		const metaFile = path.join(dir, `${key}.json`);
+		if (!(await fileExists(metaFile))) return undefined;
+		const entry = JSON.parse(await fs.promises.readFile(metaFile, 'utf8')) as { file: boolean; meta: T };
+		const dataFile = path.join(dir, key);
+		if (entry.file && !(await fileExists(dataFile))) return undefined;
+		return { path: entry.file ? dataFile : undefined, meta: entry.meta };
+	};
+
+	// The data file is renamed into place before the metadata, so an entry
+	// only becomes visible once it is complete
+	const writePersistent = async <T>(dir: string, key: string, entry: CachedFile<T>): Promise<CachedFile<T>> => {
+		await fs.promises.mkdir(dir, { recursive: true });
+		const suffix = `.${randomBytes(6).toString('hex')}.tmp`;
+		let cachedPath: string | undefined;
+		if (entry.path) {
+			cachedPath = path.join(dir, key);
+			await fs.promises.copyFile(entry.path, cachedPath + suffix);
+			await fs.promises.rename(cachedPath + suffix, cachedPath);
+			await fs.promises.rm(entry.path, { force: true });
+		}
+		const metaFile = path.join(dir, `${key}.json`);
+		await fs.promises.writeFile(metaFile + suffix, JSON.stringify({ file: !!entry.path, meta: entry.meta }));
+		await fs.promises.rename(metaFile + suffix, metaFile);
+		return { path: cachedPath, meta: entry.meta };
+	};
+
+	return {
+		load: (key, loader) => {
+			let pending = loads.get(key);
+			if (!pending) {
+				pending = loader().then(adopt);
+				// Failed loads are not cached so a later step can try again
+				pending.catch(() => loads.delete(key));
+				loads.set(key, pending);
+			}
+			return pending;
+		},
+		convert: <T>(key: string, producer: () => Promise<CachedFile<T>>, persistentDir?: string) => {
+			let pending = conversions.get(key) as Promise<CachedFile<T>> | undefined;
+			if (!pending) {
+				pending = (async () => {
+					if (persistentDir) {
+						const hit = await readPersistent<T>(persistentDir, key);
+						if (hit) return hit;
+					}
+					const entry = await producer();
+					if (persistentDir) return writePersistent(persistentDir, key, entry);
+					return entry.path ? { path: await adopt(entry.path), meta: entry.meta } : entry;
+				})();
+				pending.catch(() => conversions.delete(key));
+				conversions.set(key, pending);
+			}
+			return pending;
+		},
+		cleanup: () => {
+			loads.clear();
+			conversions.clear();
+			void store?.then((workspace) => workspace.cleanup(), () => undefined);
+		},
+	};
+}
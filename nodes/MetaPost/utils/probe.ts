@@ -0,0 +1,206 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+
+let resolvedFfprobePath: string | null = null;
+
+/**
+ * Resolve the ffprobe binary shipped with ffprobe-static. Unlike ffmpeg-static
+ * the binaries are bundled in the package, so there is nothing to download.
+ */
+export function ensureFfprobe(): string {
+	if (resolvedFfprobePath) return resolvedFfprobePath;
+
+	let expectedPath: string | undefined;
+	try {
+		// eslint-disable-next-line @typescript-eslint/no-var-requires
+		expectedPath = require('ffprobe-static').path;
+	} catch (err) {
+		throw new Error(
+			'The ffprobe-static package is not installed, so video and image files cannot be inspected. ' +
+			'Reinstall this node\'s dependencies (npm install in the node\'s package directory) and restart n8n. ' +
+			`Error: ${err instanceof Error ? err.message : String(err)}`,
+		);
+	}
+	if (!expectedPath || !fs.existsSync(expectedPath)) {
+		throw new Error(
+			`ffprobe binary not found for this platform/architecture. Expected path: ${expectedPath}`,
+		);
+	}
+
+	resolvedFfprobePath = expectedPath;
+	return resolvedFfprobePath;
+}
+
+export interface VideoStreamInfo {
+	codec: string;
+	profile?: string;
+	pixelFormat?: string;
+	width: number;
+	height: number;
+	fps?: number;
+	bitrateKbps?: number;
+	// Display rotation in degrees from the stream's display matrix or rotate tag
+	rotation?: number;
+}
+
+export interface AudioStreamInfo {
+	codec: string;
+	profile?: string;
+	sampleRate?: number;
+	channels?: number;
+	channelLayout?: string;
+	bitrateKbps?: number;
+}
+
+export interface MediaProbe {
+	container?: string;
+	// MP4 major brand, e.g. "isom" or "qt  " for QuickTime files
+	majorBrand?: string;
+	durationSec?: number;
+	bitrateKbps?: number;
+	video?: VideoStreamInfo;
+	audio?: AudioStreamInfo;
+}
+
+interface FfprobeStream {
+	codec_type?: string;
+	codec_name?: string;
+	profile?: string;
+	pix_fmt?: string;
+	width?: number;
+	height?: number;
+	avg_frame_rate?: string;
+	r_frame_rate?: string;
+	bit_rate?: string;
+	sample_rate?: string;
+	channels?: number;
+	channel_layout?: string;
+	tags?: Record<string, string>;
+	side_data_list?: Array<{ side_data_type?: string; rotation?: number }>;
+}
+
+interface FfprobeOutput {
+	streams?: FfprobeStream[];
+	format?: {
+		format_name?: string;
+		duration?: string;
+		bit_rate?: string;
+		tags?: Record<string, string>;
+	};
+}
+
+/**
+ * Inspect a media file with ffprobe. Works for images and videos; reading from
+ * a file (not a pipe) lets ffprobe seek to MP4 moov atoms at the end.
+ */
+export async function probeMedia(filePath: string, signal?: AbortSignal): Promise<MediaProbe> {
+	const ffprobe = ensureFfprobe();
+	const stdout = await runFfprobe(ffprobe, [
+		'-v', 'error',
+		'-print_format', 'json',
+		'-show_format',
+		'-show_streams',
+		filePath,
+	], signal);
+	const probe = parseFfprobeOutput(JSON.parse(stdout) as FfprobeOutput);
+	if (!probe.video && !probe.audio) {
+		throw new Error('Could not read media streams: no audio or video stream found');
+	}
+	return probe;
+}
+
+function parseFfprobeOutput(output: FfprobeOutput): MediaProbe {
+	const probe: MediaProbe = {};
+	const format = output.format ?? {};
+
+	if (format.format_name) probe.container = format.format_name;
+	if (format.tags?.major_brand) probe.majorBrand = format.tags.major_brand;
+	const duration = toNumber(format.duration);
+	if (duration !== undefined) probe.durationSec = duration;
+	const bitrate = toKbps(format.bit_rate);
+	if (bitrate !== undefined) probe.bitrateKbps = bitrate;
+
+	const streams = output.streams ?? [];
+	const video = streams.find((s) => s.codec_type === 'video');
+	if (video) {
+		probe.video = {
+			codec: video.codec_name ?? 'unknown',
+			profile: video.profile,
+			pixelFormat: video.pix_fmt,
+			width: video.width ?? 0,
+			height: video.height ?? 0,
+			fps: parseFrameRate(video.avg_frame_rate) ?? parseFrameRate(video.r_frame_rate),
+			bitrateKbps: toKbps(video.bit_rate),
+		};
+		const displayMatrix = video.side_data_list?.find((d) => d.rotation !== undefined);
+		const rotation = displayMatrix?.rotation ?? toNumber(video.tags?.rotate);
+		if (rotation) probe.video.rotation = Math.round(rotation);
+	}
+
+	const audio = streams.find((s) => s.codec_type === 'audio');
+	if (audio) {
+		probe.audio = {
+			codec: audio.codec_name ?? 'unknown',
+			profile: audio.profile,
+			sampleRate: toNumber(audio.sample_rate),
+			channels: audio.channels,
+			channelLayout: audio.channel_layout,
+			bitrateKbps: toKbps(audio.bit_rate),
+		};
+	}
+
+	return probe;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+	if (value === undefined) return undefined;
+	const n = parseFloat(value);
+	return Number.isFinite(n) ? n : undefined;
+}
+
+function toKbps(bitsPerSecond: string | undefined): number | undefined {
+	const n = toNumber(bitsPerSecond);
+	return n === undefined ? undefined : Math.round(n / 1000);
+}
+
+// ffprobe reports frame rates as fractions ("30000/1001"); "0/0" means unknown
+function parseFrameRate(rate: string | undefined): number | undefined {
+	if (!rate) return undefined;
+	const [num, den] = rate.split('/').map((v) => parseFloat(v));
+	if (!num || !den) return undefined;
+	return Math.round((num / den) * 100) / 100;
+}
+
+/**
+ * Run ffprobe and collect its JSON output from stdout.
+ */
+function runFfprobe(bin: string, args: string[], signal?: AbortSignal): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const proc = spawn(bin, args, {
+			stdio: ['ignore', 'pipe', 'pipe'],
+			signal,
+		});
+
+		let stdout = '';
+		let stderr = '';
+
+		proc.stdout.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
+		proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+
+		proc.on('close', (code) => {
+			if (code === 0) {
+				resolve(stdout);
+			} else {
+				reject(new Error(`ffprobe exited with code ${code}: ${stderr}`));
+			}
+		});
+
+		proc.on('error', (err) => {
+			if (signal?.aborted) {
+				reject(new Error('ffprobe was stopped because the execution was cancelled'));
+				return;
+			}
+			reject(new Error(`Failed to spawn ffprobe: ${err.message}`));
+		});
+	});
+}
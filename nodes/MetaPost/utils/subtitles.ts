@@ -0,0 +1,127 @@
+export interface SubtitleCue {
+	// 1-based position in the file
+	index: number;
+	start: number;
+	end: number;
+	text: string;
+}
+
+export interface SubtitleCueError {
+	cue: number;
+	line: number;
+	message: string;
+}
+
+export interface ParsedSubtitles {
+	format: 'srt' | 'vtt';
+	cues: SubtitleCue[];
+	errors: SubtitleCueError[];
+}
+
+const TIMING_LINE = /^(\S+)\s+-->\s+(\S+)/;
+
+/**
+ * Parse an SRT or WebVTT file. Invalid cues are skipped and reported with
+ * their cue number and line so editors can fix the source file.
+ */
+export function parseSubtitles(content: string): ParsedSubtitles {
+	const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+	const format = /^WEBVTT\b/.test(text) ? 'vtt' : 'srt';
+	const lines = text.split('\n');
+	const result: ParsedSubtitles = { format, cues: [], errors: [] };
+
+	let lineNo = 0;
+	if (format === 'vtt') {
+		// Skip the header block (WEBVTT line plus optional metadata)
+		while (lineNo < lines.length && lines[lineNo].trim() !== '') lineNo++;
+	}
+
+	let cueNumber = 0;
+	while (lineNo < lines.length) {
+		while (lineNo < lines.length && lines[lineNo].trim() === '') lineNo++;
+		if (lineNo >= lines.length) break;
+
+		const blockStart = lineNo;
+		const block: string[] = [];
+		while (lineNo < lines.length && lines[lineNo].trim() !== '') block.push(lines[lineNo++]);
+
+		// WebVTT NOTE, STYLE and REGION blocks carry no cue
+		if (format === 'vtt' && /^(NOTE|STYLE|REGION)\b/.test(block[0])) continue;
+
+		cueNumber++;
+		const timingIdx = block.findIndex((l) => l.includes('-->'));
+		if (timingIdx === -1) {
+			result.errors.push({ cue: cueNumber, line: blockStart + 1, message: 'Missing "start --> end" timing line' });
+			continue;
+		}
+		if (timingIdx > 1) {
+			result.errors.push({ cue: cueNumber, line: blockStart + 1, message: 'Unexpected text before the timing line' });
+			continue;
+		}
+
+		const timingLine = blockStart + timingIdx + 1;
+		const timing = TIMING_LINE.exec(block[timingIdx].trim());
+		const start = timing ? parseTimestamp(timing[1]) : undefined;
+		const end = timing ? parseTimestamp(timing[2]) : undefined;
+		if (start === undefined || end === undefined) {
+			result.errors.push({ cue: cueNumber, line: timingLine, message: `Invalid timing "${block[timingIdx].trim()}"` });
+			continue;
+		}
+		if (end <= start) {
+			result.errors.push({ cue: cueNumber, line: timingLine, message: 'End time must be after start time' });
+			continue;
+		}
+
+		const cueText = block.slice(timingIdx + 1).join('\n').trim();
+		if (!cueText) {
+			result.errors.push({ cue: cueNumber, line: timingLine, message: 'Cue has no text' });
+			continue;
+		}
+		result.cues.push({ index: cueNumber, start, end, text: cueText });
+	}
+
+	if (result.cues.length === 0 && result.errors.length === 0) {
+		result.errors.push({ cue: 0, line: 1, message: 'Subtitle file contains no cues' });
+	}
+	return result;
+}
+
+/**
+ * Accepts "hh:mm:ss,mmm" (SRT), "hh:mm:ss.mmm" and "mm:ss.mmm" (WebVTT).
+ */
+function parseTimestamp(value: string): number | undefined {
+	const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/.exec(value);
+	if (!match) return undefined;
+	const [, h, m, sec, ms] = match;
+	if (parseInt(m, 10) > 59 || parseInt(sec, 10) > 59) return undefined;
+	return parseInt(h ?? '0', 10) * 3600 + parseInt(m, 10) * 60 + parseInt(sec, 10) + parseInt(ms.padEnd(3, '0'), 10) / 1000;
+}
+
+function formatSrtTimestamp(seconds: number): string {
+	const totalMs = Math.max(0, Math.round(seconds * 1000));
+	const h = Math.floor(totalMs / 3_600_000);
+	const m = Math.floor((totalMs % 3_600_000) / 60_000);
+	const s = Math.floor((totalMs % 60_000) / 1000);
+	const ms = totalMs % 1000;
+	const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+	return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+}
+
+/**
+ * Serialise cues as SRT, shifted by `offset` seconds. Cues that end before
+ * zero (e.g. cut off by a trim) are dropped; WebVTT tags are stripped.
+ */
+export function toSrt(cues: SubtitleCue[], offset = 0): string {
+	return cues
+		.map((cue) => ({ ...cue, start: cue.start + offset, end: cue.end + offset }))
+		.filter((cue) => cue.end > 0)
+		.map((cue, idx) => {
+			const text = cue.text.replace(/<[^>]+>/g, '');
+			return `${idx + 1}\n${formatSrtTimestamp(cue.start)} --> ${formatSrtTimestamp(cue.end)}\n${text}\n`;
+		})
+		.join('\n');
+}
+
+export function formatCueErrors(errors: SubtitleCueError[]): string[] {
+	return errors.map((e) => (e.cue > 0 ? `Subtitle cue ${e.cue} (line ${e.line}): ${e.message}` : e.message));
+}
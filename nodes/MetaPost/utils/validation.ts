@@ -0,0 +1,177 @@
+import { IG_MAX_ASPECT_RATIO, IG_MIN_ASPECT_RATIO, parseBitrateKbps } from './ffmpeg';
+import type { MediaProbe } from './probe';
+
+export const IG_CAPTION_MAX_LENGTH = 2200;
+export const IG_MAX_HASHTAGS = 30;
+export const IG_MAX_MENTIONS = 20;
+export const FB_CAPTION_MAX_LENGTH = 63206;
+export const CAROUSEL_MIN_ITEMS = 2;
+export const CAROUSEL_MAX_ITEMS = 10;
+export const IG_MAX_VIDEO_BITRATE_KBPS = 5000;
+
+// Duration limits (seconds) per video placement
+export const VIDEO_DURATION_LIMITS: Record<VideoPlacement, { min: number; max: number }> = {
+	reel: { min: 3, max: 90 },
+	story: { min: 1, max: 60 },
+	carousel: { min: 3, max: 60 },
+	page: { min: 1, max: 240 * 60 },
+};
+
+export type VideoPlacement = 'reel' | 'story' | 'carousel' | 'page';
+
+export interface ValidationIssues {
+	errors: string[];
+	warnings: string[];
+}
+
+export interface ItemValidation extends ValidationIssues {
+	index: number;
+	mediaType: 'image' | 'video';
+	source: string;
+	probe?: MediaProbe;
+}
+
+export interface ValidationReport extends ValidationIssues {
+	valid: boolean;
+	items: ItemValidation[];
+}
+
+/**
+ * Conversion settings the video will be re-encoded with. Source problems the
+ * encoder fixes are warnings; settings that produce a non-compliant file are errors.
+ */
+export interface VideoEncodeTarget {
+	videoCodec: string;
+	audioCodec: string;
+	fps: number;
+	maxBitrate: string;
+}
+
+function emptyIssues(): ValidationIssues {
+	return { errors: [], warnings: [] };
+}
+
+export function validateInstagramCaption(caption: string): ValidationIssues {
+	const issues = emptyIssues();
+	if (caption.length > IG_CAPTION_MAX_LENGTH) {
+		issues.errors.push(
+			`Instagram caption is ${caption.length} characters (max ${IG_CAPTION_MAX_LENGTH})`,
+		);
+	}
+	const hashtags = caption.match(/(^|\s)#[\p{L}\p{N}_]+/gu) ?? [];
+	if (hashtags.length > IG_MAX_HASHTAGS) {
+		issues.errors.push(`Instagram caption has ${hashtags.length} hashtags (max ${IG_MAX_HASHTAGS})`);
+	}
+	const mentions = caption.match(/(^|\s)@[\w.]+/g) ?? [];
+	if (mentions.length > IG_MAX_MENTIONS) {
+		issues.errors.push(`Instagram caption has ${mentions.length} @mentions (max ${IG_MAX_MENTIONS})`);
+	}
+	return issues;
+}
+
+export function validateFacebookCaption(caption: string): ValidationIssues {
+	const issues = emptyIssues();
+	if (caption.length > FB_CAPTION_MAX_LENGTH) {
+		issues.errors.push(
+			`Facebook caption is ${caption.length} characters (max ${FB_CAPTION_MAX_LENGTH})`,
+		);
+	}
+	return issues;
+}
+
+export function validateCarouselSize(count: number): ValidationIssues {
+	const issues = emptyIssues();
+	if (count < CAROUSEL_MIN_ITEMS || count > CAROUSEL_MAX_ITEMS) {
+		issues.errors.push(
+			`Carousel requires ${CAROUSEL_MIN_ITEMS}-${CAROUSEL_MAX_ITEMS} items, got ${count}`,
+		);
+	}
+	return issues;
+}
+
+/**
+ * Instagram feed and carousel images are rejected outside 4:5 to 1.91:1.
+ * Stories (letterboxed to 9:16), covers and Facebook-only posts skip the check.
+ */
+export function validateImage(probe: MediaProbe, checkAspectRatio: boolean): ValidationIssues {
+	const issues = emptyIssues();
+	const video = probe.video;
+	if (!video || !video.width || !video.height) {
+		issues.errors.push('Could not read image dimensions');
+		return issues;
+	}
+	if (!checkAspectRatio) return issues;
+
+	const ratio = video.width / video.height;
+	if (ratio < IG_MIN_ASPECT_RATIO - 0.005 || ratio > IG_MAX_ASPECT_RATIO + 0.005) {
+		issues.errors.push(
+			`Image aspect ratio ${ratio.toFixed(2)}:1 (${video.width}x${video.height}) is outside ` +
+			'Instagram\'s allowed range of 4:5 (0.80) to 1.91:1',
+		);
+	}
+	return issues;
+}
+
+export function validateVideo(
+	probe: MediaProbe,
+	placement: VideoPlacement,
+	target: VideoEncodeTarget,
+): ValidationIssues {
+	const issues = emptyIssues();
+	const limits = VIDEO_DURATION_LIMITS[placement];
+
+	if (!probe.video) {
+		issues.errors.push('No video stream found');
+		return issues;
+	}
+
+	if (probe.durationSec === undefined) {
+		issues.warnings.push('Could not read video duration');
+	} else if (probe.durationSec < limits.min || probe.durationSec > limits.max) {
+		issues.errors.push(
+			`Video is ${probe.durationSec.toFixed(1)}s long; ${placement} videos must be ` +
+			`${limits.min}-${limits.max}s`,
+		);
+	}
+
+	// Source properties the re-encode normalises — informational only
+	if (probe.video.codec !== 'h264') {
+		issues.warnings.push(`Source video codec is ${probe.video.codec}; it will be re-encoded to H.264`);
+	}
+	const sourceKbps = probe.video.bitrateKbps ?? probe.bitrateKbps;
+	if (sourceKbps && sourceKbps > IG_MAX_VIDEO_BITRATE_KBPS) {
+		issues.warnings.push(
+			`Source bitrate is ${sourceKbps} kb/s; it will be capped at ${target.maxBitrate} during conversion`,
+		);
+	}
+	if (!probe.audio) {
+		issues.warnings.push('Video has no audio track');
+	} else if (probe.audio.codec !== 'aac') {
+		issues.warnings.push(`Source audio codec is ${probe.audio.codec}; it will be re-encoded to AAC`);
+	}
+
+	// Conversion settings that would produce a file Meta rejects
+	if (!/264/.test(target.videoCodec)) {
+		issues.errors.push(`Video codec setting "${target.videoCodec}" does not produce H.264`);
+	}
+	if (target.audioCodec !== 'aac') {
+		issues.errors.push(`Audio codec setting "${target.audioCodec}" does not produce AAC`);
+	}
+	const maxKbps = parseBitrateKbps(target.maxBitrate);
+	if (Number.isNaN(maxKbps)) {
+		issues.errors.push(`Max bitrate setting "${target.maxBitrate}" is not a valid bitrate`);
+	} else if (maxKbps > IG_MAX_VIDEO_BITRATE_KBPS) {
+		issues.errors.push(
+			`Max bitrate setting ${target.maxBitrate} exceeds Instagram's ${IG_MAX_VIDEO_BITRATE_KBPS} kb/s limit`,
+		);
+	}
+	if (target.fps < 23 || target.fps > 60) {
+		issues.errors.push(`FPS setting ${target.fps} is outside Instagram's 23-60 fps range`);
+	}
+	return issues;
+}
+
+export function mergeIssues(into: ValidationIssues, from: ValidationIssues): void {
+	into.errors.push(...from.errors);
+	into.warnings.push(...from.warnings);
+}
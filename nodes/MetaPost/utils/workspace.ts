@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Transform } from 'stream';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { IExecuteFunctions } from 'n8n-workflow';
+
+/**
+ * Per-item scratch directory for media files. Downloads, binary inputs and
+ * ffmpeg outputs all live here so large videos never sit in memory; the whole
+ * directory is removed when the item finishes or the execution is cancelled.
+ */
+export interface MediaWorkspace {
+	dir: string;
+	// Largest media file accepted from a download or binary input
+	maxBytes: number;
+	// Aborted when the workflow execution is cancelled
+	signal?: AbortSignal;
+	// Unique path inside the workspace, ending in the given name
+	file(name: string): string;
+	cleanup(): void;
+}
+
+export interface WorkspaceOptions {
+	maxBytes: number;
+	signal?: AbortSignal;
+	// Parent directory for the workspace; defaults to the OS temp directory
+	baseDir?: string;
+}
+
+// Workspaces not cleaned up yet, removed on process exit as a last resort
+const activeWorkspaces = new Set<string>();
+let exitHookInstalled = false;
+
+function removeDir(dir: string): void {
+	try { fs.rmSync(dir, { recursive: true, force: true }); } catch { /* ignore */ }
+	activeWorkspaces.delete(dir);
+}
+
+export async function createWorkspace(options: WorkspaceOptions): Promise<MediaWorkspace> {
+	if (options.signal?.aborted) throw new Error('Execution was cancelled');
+
+	const dir = await fs.promises.mkdtemp(path.join(options.baseDir || os.tmpdir(), 'metapost_'));
+	activeWorkspaces.add(dir);
+	if (!exitHookInstalled) {
+		exitHookInstalled = true;
+		process.once('exit', () => {
+			for (const active of [...activeWorkspaces]) removeDir(active);
+		});
+	}
+
+	let counter = 0;
+	let cleaned = false;
+	const onAbort = () => workspace.cleanup();
+	const workspace: MediaWorkspace = {
+		dir,
+		maxBytes: options.maxBytes,
+		signal: options.signal,
+		file: (name) => path.join(dir, `${++counter}_${name}`),
+		cleanup: () => {
+			if (cleaned) return;
+			cleaned = true;
+			options.signal?.removeEventListener('abort', onAbort);
+			removeDir(dir);
+		},
+	};
+	options.signal?.addEventListener('abort', onAbort, { once: true });
+	return workspace;
+}
+
+export function formatBytes(bytes: number): string {
+	if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+	if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+	return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function sizeLimitError(workspace: MediaWorkspace, label: string, bytes?: number): Error {
+	const size = bytes !== undefined ? ` (${formatBytes(bytes)})` : '';
+	return new Error(`${label}${size} exceeds the media size limit of ${formatBytes(workspace.maxBytes)}`);
+}
+
+/**
+ * Stream into a workspace file, failing as soon as more than maxBytes arrive
+ * so an oversized source never fills the disk.
+ */
+export async function writeStreamToFile(
+	workspace: MediaWorkspace,
+	source: Readable,
+	name: string,
+	label: string,
+): Promise<string> {
+	const target = workspace.file(name);
+	let received = 0;
+	const limiter = new Transform({
+		transform(chunk: Buffer, _encoding, callback) {
+			received += chunk.length;
+			if (received > workspace.maxBytes) {
+				callback(sizeLimitError(workspace, label));
+				return;
+			}
+			callback(null, chunk);
+		},
+	});
+
+	try {
+		await pipeline(source, limiter, fs.createWriteStream(target), { signal: workspace.signal });
+	} catch (err) {
+		try { fs.rmSync(target, { force: true }); } catch { /* ignore */ }
+		throw err;
+	}
+	return target;
+}
+
+/**
+ * Write an in-memory buffer to the workspace, e.g. binary data that n8n keeps
+ * in memory instead of its binary data store.
+ */
+export async function writeBufferToFile(
+	workspace: MediaWorkspace,
+	buffer: Buffer,
+	name: string,
+	label: string,
+): Promise<string> {
+	if (buffer.length > workspace.maxBytes) throw sizeLimitError(workspace, label, buffer.length);
+	const target = workspace.file(name);
+	await fs.promises.writeFile(target, buffer);
+	return target;
+}
+
+/**
+ * Download a file from a URL straight into the workspace. The Content-Length
+ * header is checked up front when the server sends one.
+ */
+export async function downloadMedia(
+	ctx: IExecuteFunctions,
+	workspace: MediaWorkspace,
+	url: string,
+): Promise<string> {
+	const response = await ctx.helpers.httpRequest({
+		method: 'GET',
+		url,
+		encoding: 'stream',
+		returnFullResponse: true,
+	});
+	const body = response.body as Readable;
+	const declared = parseInt(response.headers?.['content-length'] as string, 10);
+	if (declared > workspace.maxBytes) {
+		body.destroy();
+		throw sizeLimitError(workspace, `Media at ${url}`, declared);
+	}
+	return writeStreamToFile(workspace, body, 'download', `Media at ${url}`);
+}
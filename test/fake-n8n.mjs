@@ -0,0 +1,252 @@
+/**
+ * Offline harness for the MetaPost node: runs the compiled node's execute()
+ * against a fake n8n context whose HTTP requests go to a route function
+ * instead of the Graph API. Media still goes through the real ffmpeg/ffprobe.
+ *
+ * Build first: npm run build
+ */
+import { readFileSync } from 'fs';
+import { resolve, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { spawnSync } from 'child_process';
+import { tmpdir } from 'os';
+import { createRequire } from 'module';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const require = createRequire(import.meta.url);
+
+export const { MetaPost } = require(resolve(__dirname, '..', 'dist', 'nodes', 'MetaPost', 'MetaPost.node.js'));
+export const ffmpegPath = require('ffmpeg-static');
+
+/**
+ * Load a compiled module from nodes/MetaPost/utils, e.g. loadUtil('subtitles').
+ */
+export function loadUtil(name) {
+	return require(resolve(__dirname, '..', 'dist', 'nodes', 'MetaPost', 'utils', `${name}.js`));
+}
+
+function runFfmpeg(args, out) {
+	const run = spawnSync(ffmpegPath, ['-hide_banner', '-loglevel', 'error', ...args], { timeout: 60000 });
+	if (run.status !== 0) throw new Error(`ffmpeg failed: ${run.stderr}`);
+	return readFileSync(out).toString('base64');
+}
+
+/**
+ * Generate a short H.264/AAC test video (without audio when audio is false,
+ * or a PNG image) with ffmpeg and return it as n8n binary data.
+ */
+export function makeMedia({ width, height, seconds = 1, image = false, audio = true }) {
+	const out = join(
+		tmpdir(),
+		`metapost_fixture_${process.pid}_${width}x${height}_${seconds}${audio ? '' : '_mute'}.${image ? 'png' : 'mp4'}`,
+	);
+	const args = image
+		? ['-y', '-f', 'lavfi', '-i', `testsrc=size=${width}x${height}`, '-frames:v', '1', out]
+		: [
+			'-y', '-f', 'lavfi', '-i', `testsrc=size=${width}x${height}:rate=30:duration=${seconds}`,
+			...(audio ? ['-f', 'lavfi', '-i', `sine=frequency=440:duration=${seconds}`] : []),
+			'-c:v', 'libx264', '-profile:v', 'high', '-pix_fmt', 'yuv420p',
+			...(audio ? ['-c:a', 'aac', '-ar', '48000', '-ac', '2', '-shortest'] : []),
+			'-movflags', '+faststart', out,
+		];
+	return {
+		data: runFfmpeg(args, out),
+		mimeType: image ? 'image/png' : 'video/mp4',
+		fileName: image ? 'fixture.png' : 'fixture.mp4',
+	};
+}
+
+/**
+ * Generate an MP3 tone as n8n binary data, e.g. for an external audio track.
+ */
+export function makeAudio({ seconds = 1, frequency = 220 }) {
+	const out = join(tmpdir(), `metapost_fixture_${process.pid}_${frequency}hz_${seconds}.mp3`);
+	const args = ['-y', '-f', 'lavfi', '-i', `sine=frequency=${frequency}:duration=${seconds}`, '-ac', '2', out];
+	return { data: runFfmpeg(args, out), mimeType: 'audio/mpeg', fileName: 'track.mp3' };
+}
+
+// Turn a FormData body into a plain object; file parts stay Blobs
+function formFields(body) {
+	if (!(body instanceof FormData)) return undefined;
+	const fields = {};
+	for (const [key, value] of body.entries()) fields[key] = value;
+	return fields;
+}
+
+/**
+ * Run the node for one input item.
+ *
+ * route({ method, url, path, qs, form, headers, body }) returns
+ * { status?, body } for the request, or undefined for an unexpected one
+ * (which fails the request). path is the URL without host and API version.
+ */
+export async function runMetaPost({ params, binary, route, staticData = {}, continueOnFail = false }) {
+	const requests = [];
+	const node = new MetaPost();
+
+	const httpRequest = async (options) => {
+		const url = new URL(options.url);
+		const req = {
+			method: options.method ?? 'GET',
+			url: options.url,
+			path: url.pathname.replace(/^\/v\d+\.\d+/, '') || '/',
+			qs: { ...Object.fromEntries(url.searchParams), ...(options.qs ?? {}) },
+			form: formFields(options.body),
+			headers: options.headers ?? {},
+			body: options.body,
+		};
+		requests.push(req);
+		const res = await route(req);
+		if (!res) throw new Error(`Unexpected request: ${req.method} ${req.url}`);
+		const status = res.status ?? 200;
+		if (options.returnFullResponse) return { statusCode: status, headers: res.headers ?? {}, body: res.body };
+		if (status >= 400 && !options.ignoreHttpStatusErrors) {
+			const error = new Error(`Request failed with status code ${status}`);
+			error.cause = { body: res.body };
+			throw error;
+		}
+		return res.body;
+	};
+
+	const ctx = {
+		getInputData: () => [{ json: {}, binary }],
+		getCredentials: async () => ({ accessToken: 'user-token' }),
+		getNodeParameter: (name, _i, fallback) => {
+			if (name in params) return params[name];
+			if (fallback === undefined) throw new Error(`Missing parameter in test: ${name}`);
+			return fallback;
+		},
+		getWorkflowStaticData: () => staticData,
+		getExecutionCancelSignal: () => undefined,
+		continueOnFail: () => continueOnFail,
+		getNode: () => ({ name: 'Meta Post', type: 'metaPost', typeVersion: 1, parameters: {} }),
+		logger: { debug() {}, info() {}, warn() {}, error() {} },
+		sendMessageToUI() {},
+		helpers: {
+			httpRequest,
+			assertBinaryData: (_i, prop) => {
+				if (!binary?.[prop]) throw new Error(`No binary data in property "${prop}"`);
+				return binary[prop];
+			},
+			getBinaryDataBuffer: async (_i, prop) => Buffer.from(binary[prop].data, 'base64'),
+		},
+	};
+
+	const [output] = await node.execute.call(ctx);
+	return { output: output.map((item) => item.json), requests, staticData };
+}
+
+/**
+ * Minimal stateful Graph API: pages, FB photos/videos/feed posts and IG
+ * image containers. Pass overrides to fail individual endpoints.
+ */
+export function createFakeGraph(overrides = {}) {
+	let nextId = 1000;
+	const id = (prefix) => `${prefix}_${nextId++}`;
+	const graph = { photos: new Set(), videos: new Map(), posts: [], igMedia: [], deleted: [] };
+
+	graph.route = async (req) => {
+		for (const [pattern, handler] of Object.entries(overrides)) {
+			if (`${req.method} ${req.path}`.match(new RegExp(pattern))) {
+				const res = await handler(req, graph);
+				if (res) return res;
+			}
+		}
+		const { method, path, qs, form } = req;
+
+		if (method === 'GET' && qs.fields === 'access_token') return { body: { access_token: 'page-token' } };
+
+		if (method === 'POST' && path.endsWith('/photos')) {
+			const photoId = id('photo');
+			graph.photos.add(photoId);
+			return { body: { id: photoId } };
+		}
+		if (method === 'GET' && qs.fields === 'images') {
+			return { body: { images: [{ source: `https://cdn.example/${path.slice(1)}.jpg` }] } };
+		}
+		if (method === 'POST' && path.endsWith('/feed')) {
+			const postId = id('post');
+			graph.posts.push({ id: postId, form });
+			return { body: { id: postId } };
+		}
+
+		// Chunked /videos upload on graph-video
+		if (method === 'POST' && path.endsWith('/videos') && form) {
+			const phase = form.upload_phase;
+			if (phase === 'start') {
+				const videoId = id('video');
+				graph.videos.set(videoId, { size: Number(form.file_size), chunks: [] });
+				return { body: { video_id: videoId, upload_session_id: videoId, start_offset: '0', end_offset: form.file_size } };
+			}
+			const video = graph.videos.get(form.upload_session_id);
+			if (phase === 'transfer') {
+				video.chunks.push(Buffer.from(await form.video_file_chunk.arrayBuffer()));
+				const size = String(video.size);
+				return { body: { start_offset: size, end_offset: size } };
+			}
+			if (phase === 'finish') {
+				video.published = form.published === 'true';
+				return { body: { success: true } };
+			}
+		}
+
+		if (method === 'POST' && path.endsWith('/media') && qs.image_url) {
+			const containerId = id('container');
+			graph.igMedia.push({ id: containerId, qs });
+			return { body: { id: containerId } };
+		}
+		if (method === 'POST' && path.endsWith('/media_publish')) {
+			return { body: { id: id('igpost') } };
+		}
+		if (method === 'GET' && qs.fields === 'permalink') {
+			return { body: { permalink: `https://instagram.example${path}` } };
+		}
+
+		if (method === 'DELETE') {
+			graph.deleted.push(path.slice(1));
+			graph.photos.delete(path.slice(1));
+			graph.videos.delete(path.slice(1));
+			return { body: { success: true } };
+		}
+		return undefined;
+	};
+	return graph;
+}
+
+/**
+ * Parameters for a plain post; tests override what they need.
+ */
+export function postParams(overrides) {
+	return {
+		operation: 'post',
+		mediaType: 'image',
+		inputSource: 'binary',
+		binaryPropertyName: 'data',
+		publishTo: 'both',
+		instagramAccountId: 'ig_1',
+		facebookPageId: 'page_1',
+		caption: 'Hello',
+		graphApiVersion: 'v25.0',
+		...overrides,
+	};
+}
+
+let failures = 0;
+
+export async function check(name, fn) {
+	try {
+		await fn();
+		console.log(`✓ ${name}`);
+	} catch (err) {
+		failures++;
+		console.error(`✗ ${name}\n  ${err.stack ?? err}`);
+	}
+}
+
+export function finish() {
+	if (failures > 0) {
+		console.error(`\n${failures} check(s) failed`);
+		process.exit(1);
+	}
+	console.log('\nAll checks passed');
+}
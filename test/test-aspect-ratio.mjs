@@ -0,0 +1,178 @@
+/**
+ * 'auto' aspect ratio: Reels keep their native 9:16, feed images are snapped
+ * into Instagram's 4:5 to 1.91:1 range. Smart crop keeps the detailed part.
+ *
+ * Run: npm run build && node test/test-aspect-ratio.mjs
+ */
+import assert from 'assert/strict';
+import { spawnSync } from 'child_process';
+import { readFileSync, writeFileSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createRequire } from 'module';
+import { Readable } from 'stream';
+import { check, createFakeGraph, ffmpegPath, finish, makeMedia, postParams, runMetaPost } from './fake-n8n.mjs';
+
+const require = createRequire(import.meta.url);
+const ffprobe = require('ffprobe-static').path;
+
+function dimensions(buffer, ext) {
+	const file = join(tmpdir(), `metapost_probe_${process.pid}.${ext}`);
+	writeFileSync(file, buffer);
+	try {
+		const run = spawnSync(ffprobe, [
+			'-v', 'error', '-select_streams', 'v:0', '-show_entries', 'stream=width,height', '-of', 'json', file,
+		]);
+		const { width, height } = JSON.parse(run.stdout).streams[0];
+		return { width, height };
+	} finally {
+		unlinkSync(file);
+	}
+}
+
+// Average brightness of the left and right half of an image
+function halfBrightness(buffer) {
+	const file = join(tmpdir(), `metapost_halves_${process.pid}.jpg`);
+	writeFileSync(file, buffer);
+	try {
+		const run = spawnSync(ffmpegPath, [
+			'-v', 'error', '-i', file, '-vf', 'format=gray,scale=2:1:flags=area', '-f', 'rawvideo', '-',
+		]);
+		return { left: run.stdout[0], right: run.stdout[1] };
+	} finally {
+		unlinkSync(file);
+	}
+}
+
+// 2:1 image: flat black on the left half, a detailed test pattern on the right
+function halfDetailImage() {
+	const file = join(tmpdir(), `metapost_half_detail_${process.pid}.png`);
+	const run = spawnSync(ffmpegPath, [
+		'-v', 'error', '-y',
+		'-f', 'lavfi', '-i', 'color=black:size=800x800',
+		'-f', 'lavfi', '-i', 'testsrc=size=800x800',
+		'-filter_complex', 'hstack', '-frames:v', '1', file,
+	]);
+	if (run.status !== 0) throw new Error(`ffmpeg failed: ${run.stderr}`);
+	try {
+		return { data: readFileSync(file).toString('base64'), mimeType: 'image/png', fileName: 'half.png' };
+	} finally {
+		unlinkSync(file);
+	}
+}
+
+async function squareUpload(fitMode) {
+	let uploaded;
+	const graph = createFakeGraph({
+		'POST /page_1/photos': async (req) => {
+			uploaded = Buffer.from(await req.form.source.arrayBuffer());
+		},
+	});
+	await runMetaPost({
+		params: postParams({ publishTo: 'facebook', aspectRatio: '1:1', fitMode }),
+		binary: { data: halfDetailImage() },
+		route: graph.route,
+	});
+	return uploaded;
+}
+
+await check('Smart crop keeps the detailed side of the image', async () => {
+	const uploaded = await squareUpload('smart');
+	assert.deepEqual(dimensions(uploaded, 'jpg'), { width: 800, height: 800 });
+	const { left, right } = halfBrightness(uploaded);
+	assert.ok(left > 40 && right > 40, `expected the test pattern on both halves, got ${left}/${right}`);
+});
+
+await check('Center crop cuts the image around the center', async () => {
+	const { left, right } = halfBrightness(await squareUpload('crop'));
+	assert.ok(left < 10 && right > 40, `expected black left and pattern right, got ${left}/${right}`);
+});
+
+await check('Reel with auto aspect ratio keeps a 9:16 source at 9:16', async () => {
+	const graph = createFakeGraph();
+	const { output } = await runMetaPost({
+		params: postParams({ mediaType: 'video', publishTo: 'facebook', aspectRatio: 'auto', fitMode: 'pad' }),
+		binary: { data: makeMedia({ width: 1080, height: 1920 }) },
+		route: graph.route,
+	});
+
+	assert.equal(output[0].platform_status.facebook, 'published');
+	const [video] = graph.videos.values();
+	assert.deepEqual(dimensions(Buffer.concat(video.chunks), 'mp4'), { width: 1080, height: 1920 });
+});
+
+await check('Image with auto aspect ratio is padded to 4:5', async () => {
+	let uploaded;
+	const graph = createFakeGraph({
+		'POST /page_1/photos': async (req) => {
+			uploaded = Buffer.from(await req.form.source.arrayBuffer());
+		},
+	});
+	await runMetaPost({
+		params: postParams({ publishTo: 'facebook', aspectRatio: 'auto', fitMode: 'pad' }),
+		binary: { data: makeMedia({ width: 1080, height: 1920, image: true }) },
+		route: graph.route,
+	});
+
+	assert.deepEqual(dimensions(uploaded, 'jpg'), { width: 1080, height: 1350 });
+});
+
+// Instagram-only image post from a URL the fake graph serves; uploaded is
+// the last photo staged on the Page
+async function postImageUrl(image, overrides = {}) {
+	let uploaded;
+	const graph = createFakeGraph({
+		'GET /media/photo.png$': () => ({
+			headers: {},
+			body: Readable.from([Buffer.from(image.data, 'base64')]),
+		}),
+		'POST /page_1/photos': async (req) => {
+			uploaded = Buffer.from(await req.form.source.arrayBuffer());
+		},
+	});
+	const { output, requests } = await runMetaPost({
+		params: postParams({
+			publishTo: 'instagram', inputSource: 'url', mediaUrl: 'https://files.example/media/photo.png', aspectRatio: 'auto',
+			...overrides,
+		}),
+		route: graph.route,
+	});
+	return { graph, output, requests, uploaded };
+}
+
+await check('Image already in Instagram\'s range is posted by URL without staging', async () => {
+	const { graph, output, requests } = await postImageUrl(makeMedia({ width: 1080, height: 1080, image: true }));
+
+	assert.equal(output[0].platform_status.instagram, 'published');
+	assert.equal(graph.igMedia[0].qs.image_url, 'https://files.example/media/photo.png');
+	assert.equal(graph.photos.size, 0, 'nothing may be staged on the Page');
+	assert.ok(!requests.some((r) => r.qs.fields === 'access_token'), 'no page token is needed');
+});
+
+await check('Image outside Instagram\'s range is reframed and staged', async () => {
+	const { graph, output } = await postImageUrl(makeMedia({ width: 1080, height: 1920, image: true }));
+
+	assert.equal(output[0].platform_status.instagram, 'published');
+	assert.match(graph.igMedia[0].qs.image_url, /^https:\/\/cdn\.example\//);
+	assert.equal(graph.photos.size, 1);
+});
+
+await check('Story image from a URL is reframed to 9:16 like a binary one', async () => {
+	const image = makeMedia({ width: 1080, height: 1080, image: true });
+	const { graph, output, uploaded } = await postImageUrl(image, { mediaType: 'story', storyMediaType: 'image' });
+
+	assert.equal(output[0].platform_status.instagram, 'published');
+	assert.match(graph.igMedia[0].qs.image_url, /^https:\/\/cdn\.example\//);
+	assert.deepEqual(dimensions(uploaded, 'jpg'), { width: 1080, height: 1920 });
+});
+
+await check('Story image from a URL that is already 9:16 goes to Instagram by URL', async () => {
+	const image = makeMedia({ width: 1080, height: 1920, image: true });
+	const { graph, output } = await postImageUrl(image, { mediaType: 'story', storyMediaType: 'image' });
+
+	assert.equal(output[0].platform_status.instagram, 'published');
+	assert.equal(graph.igMedia[0].qs.image_url, 'https://files.example/media/photo.png');
+	assert.equal(graph.photos.size, 0);
+});
+
+finish();
@@ -0,0 +1,98 @@
+/**
+ * Audio handling on video conversion: silent track for videos without audio,
+ * external audio in Replace and Mix mode, and loudness normalization. Every
+ * case must finish at the video's length.
+ *
+ * Run: npm run build && node test/test-audio.mjs
+ */
+import assert from 'assert/strict';
+import { spawnSync } from 'child_process';
+import { writeFileSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createRequire } from 'module';
+import { check, createFakeGraph, finish, makeAudio, makeMedia, postParams, runMetaPost } from './fake-n8n.mjs';
+
+const require = createRequire(import.meta.url);
+const ffprobe = require('ffprobe-static').path;
+
+function streams(buffer) {
+	const file = join(tmpdir(), `metapost_probe_${process.pid}.mp4`);
+	writeFileSync(file, buffer);
+	try {
+		const run = spawnSync(ffprobe, [
+			'-v', 'error', '-show_entries', 'stream=codec_type,duration', '-of', 'json', file,
+		]);
+		return Object.fromEntries(
+			JSON.parse(run.stdout).streams.map((s) => [s.codec_type, parseFloat(s.duration)]),
+		);
+	} finally {
+		unlinkSync(file);
+	}
+}
+
+// Post a 2 s video to Facebook only (no Instagram status polling) and return
+// the uploaded file's stream durations plus the processing report
+async function convert({ audio = true, audioSettings = {}, track }) {
+	const graph = createFakeGraph();
+	const binary = { data: makeMedia({ width: 640, height: 360, seconds: 2, audio }) };
+	if (track) binary.audio = track;
+	const { output } = await runMetaPost({
+		params: postParams({
+			mediaType: 'video',
+			publishTo: 'facebook',
+			audioSettings,
+			audioTrackSource: track ? 'binary' : 'none',
+			audioTrackBinaryPropertyName: 'audio',
+		}),
+		binary,
+		route: graph.route,
+	});
+	assert.equal(output[0].platform_status.facebook, 'published');
+	const [video] = graph.videos.values();
+	return { durations: streams(Buffer.concat(video.chunks)), report: output[0].video_processing[0] };
+}
+
+function assertLength({ durations }) {
+	assert.ok(durations.audio, 'output must have an audio stream');
+	assert.ok(Math.abs(durations.audio - 2) < 0.2, `audio is ${durations.audio}s, not 2s`);
+	assert.ok(Math.abs(durations.video - 2) < 0.2, `video is ${durations.video}s, not 2s`);
+}
+
+await check('Video without audio gets a silent track as long as the video', async () => {
+	const converted = await convert({ audio: false });
+	assert.equal(converted.report.audio, 'silent');
+	assertLength(converted);
+});
+
+await check('Replace mode pads or cuts the external audio to the video', async () => {
+	const converted = await convert({ audioSettings: { audioTrackMode: 'replace' }, track: makeAudio({ seconds: 5 }) });
+	assert.equal(converted.report.audio, 'replaced');
+	assertLength(converted);
+});
+
+await check('Replace mode with a shorter track and loudness normalization', async () => {
+	const converted = await convert({
+		audioSettings: { audioTrackMode: 'replace', normalizeLoudness: true },
+		track: makeAudio({ seconds: 1 }),
+	});
+	assert.equal(converted.report.audio, 'replaced');
+	assert.equal(converted.report.loudness.normalized, true);
+	assertLength(converted);
+});
+
+await check('Mix mode mixes the external audio into the source audio', async () => {
+	const converted = await convert({ audioSettings: { audioTrackMode: 'mix' }, track: makeAudio({ seconds: 5 }) });
+	assert.equal(converted.report.audio, 'mixed');
+	assertLength(converted);
+});
+
+await check('Source audio is normalized to the loudness target', async () => {
+	const converted = await convert({ audioSettings: { normalizeLoudness: true, targetLufs: -16 } });
+	assert.equal(converted.report.audio, 'source');
+	assert.equal(converted.report.loudness.targetLufs, -16);
+	assert.equal(converted.report.loudness.normalized, true);
+	assertLength(converted);
+});
+
+finish();
@@ -0,0 +1,67 @@
+/**
+ * mapWithConcurrency: results keep item order whatever finishes first, no more
+ * than the limit runs at once, and the first failure stops new items.
+ *
+ * Run: npm run build && node test/test-concurrency.mjs
+ */
+import assert from 'assert/strict';
+import { check, finish, loadUtil } from './fake-n8n.mjs';
+
+const { mapWithConcurrency } = loadUtil('concurrency');
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+await check('Results keep item order and at most limit items run at once', async () => {
+	let running = 0;
+	let peak = 0;
+	const finished = [];
+
+	const results = await mapWithConcurrency([30, 5, 20, 1, 10], 2, async (ms, index) => {
+		running++;
+		peak = Math.max(peak, running);
+		await delay(ms);
+		running--;
+		finished.push(index);
+		return `item ${index}`;
+	});
+
+	assert.deepEqual(results, ['item 0', 'item 1', 'item 2', 'item 3', 'item 4']);
+	assert.equal(peak, 2);
+	assert.notDeepEqual(finished, [0, 1, 2, 3, 4], 'items should finish out of order');
+});
+
+await check('A limit above the item count runs everything at once', async () => {
+	let running = 0;
+	let peak = 0;
+	await mapWithConcurrency([1, 2, 3], 10, async () => {
+		running++;
+		peak = Math.max(peak, running);
+		await delay(5);
+		running--;
+	});
+	assert.equal(peak, 3);
+	assert.deepEqual(await mapWithConcurrency([], 3, async () => 1), []);
+});
+
+await check('The first error is thrown once running items settle and no new items start', async () => {
+	const started = [];
+	const settled = [];
+
+	await assert.rejects(
+		mapWithConcurrency([0, 1, 2, 3, 4, 5], 2, async (_, index) => {
+			started.push(index);
+			if (index === 1) {
+				await delay(5);
+				throw new Error('item 1 failed');
+			}
+			await delay(20);
+			settled.push(index);
+		}),
+		/item 1 failed/,
+	);
+
+	assert.deepEqual(started, [0, 1]);
+	assert.deepEqual(settled, [0], 'the running item finishes before the error is thrown');
+});
+
+finish();
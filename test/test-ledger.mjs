@@ -0,0 +1,60 @@
+/**
+ * Publish ledger in workflow static data: entries expire after 90 days and
+ * only the newest 500 are kept.
+ *
+ * Run: npm run build && node test/test-ledger.mjs
+ */
+import assert from 'assert/strict';
+import { check, finish, loadUtil } from './fake-n8n.mjs';
+
+const { findPublished, recordPublished } = loadUtil('ledger');
+
+const DAY = 24 * 60 * 60 * 1000;
+const t0 = Date.parse('2026-01-01T00:00:00.000Z');
+
+await check('A recorded publish is found under its key', () => {
+	const staticData = {};
+	recordPublished(staticData, 'k', { facebook_post_id: 'post_1' }, new Date(t0));
+	assert.deepEqual(findPublished(staticData, 'k'), {
+		result: { facebook_post_id: 'post_1' },
+		recorded_at: '2026-01-01T00:00:00.000Z',
+	});
+	assert.equal(findPublished(staticData, 'other'), undefined);
+	assert.equal(findPublished({}, 'k'), undefined);
+});
+
+await check('Entries older than 90 days are dropped on the next record', () => {
+	const staticData = {};
+	recordPublished(staticData, 'old', {}, new Date(t0));
+	recordPublished(staticData, 'recent', {}, new Date(t0 + 10 * DAY));
+
+	recordPublished(staticData, 'now', {}, new Date(t0 + 90 * DAY));
+	assert.ok(findPublished(staticData, 'old'), 'exactly 90 days old is still kept');
+
+	recordPublished(staticData, 'later', {}, new Date(t0 + 91 * DAY));
+	assert.equal(findPublished(staticData, 'old'), undefined);
+	assert.deepEqual(Object.keys(staticData.publishLedger).sort(), ['later', 'now', 'recent']);
+});
+
+await check('Only the newest 500 entries are kept', () => {
+	const staticData = {};
+	for (let i = 0; i < 502; i++) {
+		recordPublished(staticData, `key-${i}`, {}, new Date(t0 + i * 1000));
+	}
+	const keys = Object.keys(staticData.publishLedger);
+	assert.equal(keys.length, 500);
+	assert.equal(findPublished(staticData, 'key-0'), undefined);
+	assert.equal(findPublished(staticData, 'key-1'), undefined);
+	assert.ok(findPublished(staticData, 'key-2'));
+	assert.ok(findPublished(staticData, 'key-501'));
+});
+
+await check('Recording a key again replaces its entry', () => {
+	const staticData = {};
+	recordPublished(staticData, 'k', { instagram_post_id: 'ig_1' }, new Date(t0));
+	recordPublished(staticData, 'k', { instagram_post_id: 'ig_1', facebook_post_id: 'post_1' }, new Date(t0 + DAY));
+	assert.equal(Object.keys(staticData.publishLedger).length, 1);
+	assert.equal(findPublished(staticData, 'k').result.facebook_post_id, 'post_1');
+});
+
+finish();
@@ -0,0 +1,51 @@
+/**
+ * Partial success and Resume: a platform that fails after the other one
+ * published is reported in platform_status, and Resume only posts what is
+ * missing — once, even when the Resume execution itself is retried.
+ *
+ * Run: npm run build && node test/test-resume.mjs
+ */
+import assert from 'assert/strict';
+import { check, createFakeGraph, finish, makeMedia, postParams, runMetaPost } from './fake-n8n.mjs';
+
+await check('Reel failing on Instagram after the Facebook video published is a partial success', async () => {
+	const graph = createFakeGraph({
+		'POST /ig_1/media$': () => ({ status: 400, body: { error: { message: 'Unsupported video' } } }),
+	});
+	const { output } = await runMetaPost({
+		params: postParams({ mediaType: 'video' }),
+		binary: { data: makeMedia({ width: 720, height: 1280 }) },
+		route: graph.route,
+	});
+
+	const result = output[0];
+	assert.deepEqual(result.platform_status, { instagram: 'failed', facebook: 'published' });
+	assert.match(result.platform_errors.instagram, /Unsupported video/);
+	assert.ok(result.facebook_video_id);
+	assert.ok(graph.videos.has(result.facebook_video_id), 'published Facebook video must not be deleted');
+});
+
+await check('Resume run twice with the same key posts the missing platform once', async () => {
+	const graph = createFakeGraph();
+	const staticData = {};
+	const params = postParams({
+		preventDuplicates: true,
+		idempotencyKey: 'launch-post',
+		resume: true,
+		previousResult: { instagram_post_id: 'igpost_1', platform_status: { instagram: 'published', facebook: 'failed' } },
+	});
+	const binary = { data: makeMedia({ width: 1080, height: 1080, image: true }) };
+
+	const first = await runMetaPost({ params, binary, route: graph.route, staticData });
+	const second = await runMetaPost({ params, binary, route: graph.route, staticData });
+
+	assert.equal(graph.posts.length, 1, 'the Facebook post must be published only once');
+	assert.equal(graph.igMedia.length, 0, 'Instagram was already published');
+	assert.deepEqual(first.output[0].platform_status, { instagram: 'published', facebook: 'published' });
+	assert.equal(second.output[0].duplicate, true);
+	assert.equal(second.output[0].facebook_post_id, first.output[0].facebook_post_id);
+	assert.equal(second.output[0].instagram_post_id, 'igpost_1');
+	assert.deepEqual(second.output[0].platform_status, { instagram: 'published', facebook: 'published' });
+});
+
+finish();
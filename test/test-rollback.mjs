@@ -0,0 +1,30 @@
+/**
+ * Rollback of what a post created on Meta's side when a platform fails.
+ *
+ * Run: npm run build && node test/test-rollback.mjs
+ */
+import assert from 'assert/strict';
+import { check, createFakeGraph, finish, makeMedia, postParams, runMetaPost } from './fake-n8n.mjs';
+
+await check('Staged photo reused by a failed Facebook post is deleted after Instagram published', async () => {
+	const graph = createFakeGraph({
+		'POST /page_1/feed$': () => ({ status: 500, body: { error: { message: 'Service unavailable' } } }),
+	});
+	const { output } = await runMetaPost({
+		params: postParams(),
+		binary: { data: makeMedia({ width: 1080, height: 1080, image: true }) },
+		route: graph.route,
+	});
+
+	const result = output[0];
+	assert.deepEqual(result.platform_status, { instagram: 'published', facebook: 'failed' });
+	const [stagedId] = graph.deleted;
+	assert.ok(stagedId?.startsWith('photo_'), 'the staged photo must be deleted');
+	assert.equal(graph.photos.size, 0);
+	assert.deepEqual(
+		result.cleaned_up.map(({ kind, id, platform, action }) => ({ kind, id, platform, action })),
+		[{ kind: 'facebook_photo', id: stagedId, platform: 'facebook', action: 'deleted' }],
+	);
+});
+
+finish();
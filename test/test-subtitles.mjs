@@ -0,0 +1,82 @@
+/**
+ * Subtitle parsing and SRT output: malformed cues are reported with their cue
+ * number and line, WebVTT header and metadata blocks are skipped, and cues
+ * shifted before zero by a trim are dropped or clipped.
+ *
+ * Run: npm run build && node test/test-subtitles.mjs
+ */
+import assert from 'assert/strict';
+import { check, finish, loadUtil } from './fake-n8n.mjs';
+
+const { parseSubtitles, toSrt, formatCueErrors } = loadUtil('subtitles');
+
+await check('SRT cues are parsed with BOM and CRLF line endings', () => {
+	const parsed = parseSubtitles('\uFEFF1\r\n00:00:01,000 --> 00:00:02,500\r\nHello\r\nworld\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nBye\r\n');
+	assert.equal(parsed.format, 'srt');
+	assert.deepEqual(parsed.errors, []);
+	assert.deepEqual(parsed.cues, [
+		{ index: 1, start: 1, end: 2.5, text: 'Hello\nworld' },
+		{ index: 2, start: 3, end: 4, text: 'Bye' },
+	]);
+});
+
+await check('Malformed cues are skipped and reported with cue number and line', () => {
+	const parsed = parseSubtitles([
+		'1', '00:00:01,000 --> 00:00:02,000', 'Good', '',
+		'2', 'no timing here', '',
+		'3', '00:00:05,000 --> later', 'Bad timing', '',
+		'4', '00:00:07,000 --> 00:00:06,000', 'Backwards', '',
+		'5', '00:00:08,000 --> 00:00:09,000', '',
+		'6', 'stray text', '00:00:10,000 --> 00:00:11,000', 'Late timing', '',
+		'7', '00:01:60,000 --> 00:02:00,000', 'Seconds out of range', '',
+	].join('\n'));
+
+	assert.deepEqual(parsed.cues.map((c) => c.index), [1]);
+	assert.deepEqual(parsed.errors, [
+		{ cue: 2, line: 5, message: 'Missing "start --> end" timing line' },
+		{ cue: 3, line: 9, message: 'Invalid timing "00:00:05,000 --> later"' },
+		{ cue: 4, line: 13, message: 'End time must be after start time' },
+		{ cue: 5, line: 17, message: 'Cue has no text' },
+		{ cue: 6, line: 19, message: 'Unexpected text before the timing line' },
+		{ cue: 7, line: 25, message: 'Invalid timing "00:01:60,000 --> 00:02:00,000"' },
+	]);
+	assert.equal(formatCueErrors(parsed.errors)[0], 'Subtitle cue 2 (line 5): Missing "start --> end" timing line');
+});
+
+await check('WebVTT header, metadata and NOTE/STYLE blocks carry no cues', () => {
+	const parsed = parseSubtitles([
+		'WEBVTT - Title', 'Kind: captions', 'Language: en', '',
+		'NOTE written by hand', '',
+		'STYLE', '::cue { color: yellow }', '',
+		'intro', '00:01.500 --> 00:03.000 align:start', '<b>Hi</b> there', '',
+		'01:00:00.000 --> 01:00:01.250', 'An hour in',
+	].join('\n'));
+
+	assert.equal(parsed.format, 'vtt');
+	assert.deepEqual(parsed.errors, []);
+	assert.deepEqual(parsed.cues, [
+		{ index: 1, start: 1.5, end: 3, text: '<b>Hi</b> there' },
+		{ index: 2, start: 3600, end: 3601.25, text: 'An hour in' },
+	]);
+});
+
+await check('A file without cues is reported as empty', () => {
+	assert.deepEqual(formatCueErrors(parseSubtitles('WEBVTT\n\nNOTE only a note\n').errors), [
+		'Subtitle file contains no cues',
+	]);
+});
+
+await check('SRT output is renumbered, shifted and clipped at zero', () => {
+	const cues = [
+		{ index: 1, start: 0.5, end: 1.5, text: 'Cut off' },
+		{ index: 2, start: 1.8, end: 3, text: '<i>Half</i> visible' },
+		{ index: 3, start: 65.25, end: 3661.001, text: 'Later' },
+	];
+	assert.equal(toSrt(cues, -2), [
+		'1', '00:00:00,000 --> 00:00:01,000', 'Half visible', '',
+		'2', '00:01:03,250 --> 01:00:59,001', 'Later', '',
+	].join('\n'));
+	assert.match(toSrt(cues), /^1\n00:00:00,500 --> 00:00:01,500\nCut off\n/);
+});
+
+finish();
@@ -0,0 +1,143 @@
+/**
+ * Chunked video uploads: a failed chunk is retried and the upload resumes
+ * from the offset the server reports, not from the start of the file.
+ *
+ * Run: npm run build && node test/test-uploads.mjs
+ */
+import assert from 'assert/strict';
+import { writeFileSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { check, finish, loadUtil } from './fake-n8n.mjs';
+
+const graphApi = loadUtil('graphApi');
+
+const FILE = Buffer.from('abcdefghijklmnopqrstuvwxy'); // 25 bytes
+
+function withFile(fn) {
+	const file = join(tmpdir(), `metapost_upload_${process.pid}.bin`);
+	writeFileSync(file, FILE);
+	return fn(file).finally(() => unlinkSync(file));
+}
+
+// ctx whose httpRequest answers with handler(options) as a full response,
+// or throws when the handler returns an Error
+function fakeCtx(handler) {
+	return {
+		helpers: {
+			httpRequest: async (options) => {
+				const res = await handler(options);
+				if (res instanceof Error) throw res;
+				return { statusCode: res.status ?? 200, headers: {}, body: res.body };
+			},
+		},
+	};
+}
+
+async function blobBytes(blob) {
+	return Buffer.from(await blob.arrayBuffer());
+}
+
+await check('Rupload retries a failed chunk from the offset the server holds', () => withFile(async (file) => {
+	let received = Buffer.alloc(0);
+	const offsets = [];
+	let failNext = true;
+	const ctx = fakeCtx((options) => {
+		if (options.method === 'GET') return { body: { offset: received.length } };
+		const offset = Number(options.headers.offset);
+		offsets.push(offset);
+		const chunk = options.body;
+		if (offset === 10 && failNext) {
+			// The server keeps half of the chunk before the connection drops
+			failNext = false;
+			received = Buffer.concat([received.subarray(0, offset), chunk.subarray(0, 5)]);
+			return { status: 503, body: { error: { message: 'Service unavailable' } } };
+		}
+		received = Buffer.concat([received.subarray(0, offset), chunk]);
+		return { body: { success: true } };
+	});
+	const progress = [];
+
+	await graphApi.uploadIgVideoBytes(ctx, 'token', 'https://rupload.example/upload', file, {
+		chunkSize: 10, maxRetries: 2, onProgress: (p) => progress.push(p),
+	});
+
+	assert.deepEqual(offsets, [0, 10, 15]);
+	assert.deepEqual(received, FILE);
+	assert.deepEqual(progress.at(-1), {
+		context: 'Instagram video byte upload', sentBytes: 25, totalBytes: 25, chunks: 2, retries: 1,
+	});
+}));
+
+await check('Rupload fails at once on an error that is not transient', () => withFile(async (file) => {
+	let posts = 0;
+	const ctx = fakeCtx(() => {
+		posts++;
+		return { status: 400, body: { error: { message: 'Invalid upload' } } };
+	});
+
+	await assert.rejects(
+		graphApi.uploadIgVideoBytes(ctx, 'token', 'https://rupload.example/upload', file, { chunkSize: 10, maxRetries: 3 }),
+		/Invalid upload/,
+	);
+	assert.equal(posts, 1);
+}));
+
+await check('Rupload gives up after the retries on network errors', () => withFile(async (file) => {
+	let posts = 0;
+	const ctx = fakeCtx((options) => {
+		if (options.method === 'GET') return new Error('socket hang up');
+		posts++;
+		return new Error('ECONNRESET');
+	});
+
+	await assert.rejects(
+		graphApi.uploadIgVideoBytes(ctx, 'token', 'https://rupload.example/upload', file, { chunkSize: 10, maxRetries: 1 }),
+		/failed at byte 0 of 25 after 1 retries: ECONNRESET/,
+	);
+	assert.equal(posts, 2);
+}));
+
+await check('Facebook transfer resumes from the offsets in the error response', () => withFile(async (file) => {
+	const received = Buffer.alloc(FILE.length);
+	const transfers = [];
+	let finished;
+	let failed = false;
+	const window = (start) => ({ start_offset: String(start), end_offset: String(Math.min(start + 10, FILE.length)) });
+	const ctx = fakeCtx(async (options) => {
+		const form = Object.fromEntries(options.body.entries());
+		if (form.upload_phase === 'start') {
+			return { body: { upload_session_id: 's1', video_id: 'v1', ...window(0) } };
+		}
+		if (form.upload_phase === 'finish') {
+			finished = form;
+			return { body: { success: true } };
+		}
+		const start = Number(form.start_offset);
+		const chunk = await blobBytes(form.video_file_chunk);
+		transfers.push([start, chunk.length]);
+		if (start === 10 && !failed) {
+			// Facebook stored 2 bytes of this chunk and asks for the rest
+			failed = true;
+			chunk.copy(received, start, 0, 2);
+			return {
+				status: 400,
+				body: { error: { message: 'Transfer interrupted', error_data: JSON.stringify(window(12)) } },
+			};
+		}
+		chunk.copy(received, start);
+		return { body: window(start + chunk.length) };
+	});
+
+	const video = await graphApi.uploadFbVideoFromFile(
+		ctx, 'page-token', 'page_1', file, 'video.mp4', 'Caption', true, 'v25.0',
+		undefined, undefined, undefined, { chunkSize: 10, maxRetries: 2 },
+	);
+
+	assert.deepEqual(video, { id: 'v1' });
+	assert.deepEqual(transfers, [[0, 10], [10, 10], [12, 10], [22, 3]]);
+	assert.deepEqual(received, FILE);
+	assert.equal(finished.description, 'Caption');
+}));
+
+finish();